@@ -1,3 +1,9 @@
+// Unstable elements turn into their byproduct after lifetime on the canvas
+export interface ElementDecay {
+  lifetime: number; // ms
+  byproduct: string; // hex ID
+}
+
 export interface Element {
   id: string;
   originalId: string;
@@ -5,11 +11,16 @@ export interface Element {
   emoji: string;
   rarity: 'basic' | 'common' | 'uncommon' | 'rare' | 'legendary';
   category: 'basic' | 'nature' | 'science' | 'life' | 'civilization' | 'technology' | 'magic' | 'abstract';
+  decay: ElementDecay | null;
 }
 
+// Two or more inputs; the order does not matter
 export interface Recipe {
-  inputs: [string, string];
-  output: string;
+  inputs: string[];
+  // The main result first, then any byproducts
+  outputs: string[];
+  // Element that must be near the merge point; not used up
+  catalyst: string | null;
 }
 
 export interface GameConfig {
@@ -33,6 +44,7 @@ export interface ElementDefinition {
   category: 'basic' | 'nature' | 'science' | 'life' | 'civilization' | 'technology' | 'magic' | 'abstract';
   discovered: boolean;
   rarity: 'basic' | 'common' | 'uncommon' | 'rare' | 'legendary';
+  decay: ElementDecay | null;
 }
 
 
@@ -46,11 +58,13 @@ export interface CompiledElement {
   name: string;
   rarity: 'basic' | 'common' | 'uncommon' | 'rare' | 'legendary';
   category: 'basic' | 'nature' | 'science' | 'life' | 'civilization' | 'technology' | 'magic' | 'abstract';
+  decay: ElementDecay | null;
 }
 
 export interface CompiledRecipe {
-  inputs: [string, string];
-  output: string;
+  inputs: string[];
+  outputs: string[];
+  catalyst: string | null;
 }
 
 export interface CompiledLanguageData {
@@ -65,9 +79,37 @@ export interface CompiledLanguageData {
   };
 }
 
+export type UpgradeEffect = 'mergeDistance' | 'production' | 'hintRefill' | 'autoMergerSlots';
+
+// Shop upgrade from upgrades.tsv; the same in every language
+export interface Upgrade {
+  id: string;
+  effect: UpgradeEffect;
+  baseCost: number;
+  costGrowth: number;
+  value: number;
+  maxLevel: number | null;
+}
+
+export type AchievementTrigger = 'merge' | 'discovery' | 'clear' | 'arrange';
+
+// Achievement from achievements.tsv; the same in every language
+export interface Achievement {
+  id: string;
+  trigger: AchievementTrigger;
+  // Discovery achievements may count only elements of one category or rarity
+  filter: { type: 'category' | 'rarity'; value: string } | null;
+  // null: every element matching the filter
+  amount: number | null;
+  // Seconds the counted discoveries must fall within
+  within: number | null;
+}
+
 export interface CompiledData {
   languages: string[];
   data: Record<string, CompiledLanguageData>;
+  upgrades: Upgrade[];
+  achievements: Achievement[];
   metadata: {
     version: string;
     compiledAt: string;
@@ -75,10 +117,27 @@ export interface CompiledData {
   };
 }
 
+// Lookup tables for the current language's recipes and elements
+interface RecipeIndex {
+  // Sorted inputs joined with + -> recipe
+  byInputs: Map<string, Recipe>;
+  // Element ID -> recipes it is an input of
+  byInput: Map<string, Recipe[]>;
+  maxInputs: number;
+  // Original string ID from the TSV -> hex ID
+  idsByOriginalId: Map<string, string>;
+}
+
+// Hex IDs never contain +, so sorted inputs joined with it identify a recipe
+function recipeKey(inputs: string[]): string {
+  return [...inputs].sort().join('+');
+}
+
 export class ConfigLoader {
   private static instance: ConfigLoader;
   private compiledData: CompiledData | null = null;
   private currentLanguage: string = 'en';
+  private recipeIndex: RecipeIndex | null = null;
 
   private constructor() {}
 
@@ -96,6 +155,7 @@ export class ConfigLoader {
         throw new Error(`Failed to load compiled config: ${response.status}`);
       }
       this.compiledData = await response.json();
+      this.buildRecipeIndex();
       console.log('✅ Loaded per-language compiled configuration');
       if (this.compiledData) {
         console.log(`📊 Supported languages: ${this.compiledData.languages.join(', ')}`);
@@ -116,6 +176,7 @@ export class ConfigLoader {
     }
     
     this.currentLanguage = language;
+    this.buildRecipeIndex();
     console.log(`🌍 Language set to: ${language}`);
   }
 
@@ -144,13 +205,15 @@ export class ConfigLoader {
       name: compiledElement.name,
       emoji: compiledElement.emoji,
       rarity: compiledElement.rarity,
-      category: compiledElement.category
+      category: compiledElement.category,
+      decay: compiledElement.decay ?? null
     }));
 
     // Convert compiled recipes to game recipes
     const recipes: Recipe[] = languageData.recipes.map(compiledRecipe => ({
       inputs: compiledRecipe.inputs,
-      output: compiledRecipe.output
+      outputs: compiledRecipe.outputs,
+      catalyst: compiledRecipe.catalyst ?? null
     }));
 
     return {
@@ -166,6 +229,20 @@ export class ConfigLoader {
     };
   }
 
+  public getUpgrades(): Upgrade[] {
+    if (!this.compiledData) {
+      throw new Error('Configuration not loaded. Call loadConfig() first.');
+    }
+    return this.compiledData.upgrades || [];
+  }
+
+  public getAchievements(): Achievement[] {
+    if (!this.compiledData) {
+      throw new Error('Configuration not loaded. Call loadConfig() first.');
+    }
+    return this.compiledData.achievements || [];
+  }
+
   public getElementById(id: string): Element | undefined {
     if (!this.compiledData) {
       throw new Error('Configuration not loaded. Call loadConfig() first.');
@@ -187,32 +264,74 @@ export class ConfigLoader {
       name: compiledElement.name,
       emoji: compiledElement.emoji,
       rarity: compiledElement.rarity,
-      category: compiledElement.category
+      category: compiledElement.category,
+      decay: compiledElement.decay ?? null
     };
   }
 
-  public getRecipeByInputs(input1: string, input2: string): Recipe | undefined {
+  public getElementByOriginalId(originalId: string): Element | undefined {
     if (!this.compiledData) {
       throw new Error('Configuration not loaded. Call loadConfig() first.');
     }
 
-    const languageData = this.compiledData.data[this.currentLanguage];
-    if (!languageData) {
-      return undefined;
+    const id = this.getRecipeIndex().idsByOriginalId.get(originalId);
+    return id ? this.getElementById(id) : undefined;
+  }
+
+  // Finds the recipe that uses exactly these inputs, in any order
+  public getRecipeByInputs(...inputs: string[]): Recipe | undefined {
+    return this.getRecipeIndex().byInputs.get(recipeKey(inputs));
+  }
+
+  // Recipes of the current language that take this element as an input
+  public getRecipesUsing(elementId: string): Recipe[] {
+    return this.getRecipeIndex().byInput.get(elementId) ?? [];
+  }
+
+  // Most inputs any recipe of the current language takes
+  public getMaxRecipeInputs(): number {
+    return this.getRecipeIndex().maxInputs;
+  }
+
+  private getRecipeIndex(): RecipeIndex {
+    if (!this.compiledData) {
+      throw new Error('Configuration not loaded. Call loadConfig() first.');
+    }
+    if (!this.recipeIndex) {
+      this.buildRecipeIndex();
     }
+    return this.recipeIndex!;
+  }
 
-    // Sort inputs to match how recipes are stored
-    const sortedInputs = [input1, input2].sort();
+  // Rebuilt whenever the config or the language changes; lookups are then O(1)
+  private buildRecipeIndex(): void {
+    const index: RecipeIndex = { byInputs: new Map(), byInput: new Map(), maxInputs: 2, idsByOriginalId: new Map() };
+    const languageData = this.compiledData?.data[this.currentLanguage];
     
-    const recipe = languageData.recipes.find(r => {
-      const recipeInputs = [...r.inputs].sort();
-      return recipeInputs[0] === sortedInputs[0] && recipeInputs[1] === sortedInputs[1];
+    Object.values(languageData?.elements ?? {}).forEach(element => {
+      index.idsByOriginalId.set(element.originalId, element.id);
     });
-
-    return recipe ? {
-      inputs: recipe.inputs,
-      output: recipe.output
-    } : undefined;
+    
+    languageData?.recipes.forEach(compiledRecipe => {
+      const recipe: Recipe = {
+        inputs: compiledRecipe.inputs,
+        outputs: compiledRecipe.outputs,
+        catalyst: compiledRecipe.catalyst ?? null
+      };
+      index.byInputs.set(recipeKey(recipe.inputs), recipe);
+      // An element used twice (fire+fire) lists the recipe once
+      new Set(recipe.inputs).forEach(input => {
+        const recipes = index.byInput.get(input);
+        if (recipes) {
+          recipes.push(recipe);
+        } else {
+          index.byInput.set(input, [recipe]);
+        }
+      });
+      index.maxInputs = Math.max(index.maxInputs, recipe.inputs.length);
+    });
+    
+    this.recipeIndex = index;
   }
 
   public getBaseElements(): Element[] {
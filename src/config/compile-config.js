@@ -10,17 +10,45 @@ const crypto = require('crypto');
  * This script compiles TSV source files into production-ready JSON files:
  * - Reads language-specific TSV files (elements.en.tsv, elements.es.tsv)
  * - Reads recipes.tsv for element combinations
+ * - Reads upgrades.tsv for the essence shop
+ * - Reads achievements.tsv for achievements
+ * - Reads decay.tsv for elements that decay on the canvas
+ * - Reads catalysts.tsv for recipes that need a catalyst nearby
  * - Converts string IDs to hex values
+ * - Validates the content and fails with file:line errors
  * - Generates compiled game configuration and i18n translation files
+ *
+ * Run with --validate to only check the content without writing any files.
  */
 
-console.log('🔧 Starting per-language configuration compilation...');
+const VALIDATE_ONLY = process.argv.includes('--validate');
+
+console.log(VALIDATE_ONLY
+  ? '🔍 Validating configuration content...'
+  : '🔧 Starting per-language configuration compilation...');
 
 // Configuration
 const CONFIG_DIR = path.join(__dirname);
 const OUTPUT_DIR = path.join(__dirname, '../../public');
 const LANGUAGES = ['en', 'es'];
 
+// Content errors fail the build; they are collected so all of them are reported at once
+const contentErrors = [];
+// Parsed row -> where it came from, for error messages
+const rowLocations = new WeakMap();
+// Rows already reported, so follow-on errors about them are not repeated
+const rowsWithErrors = new WeakSet();
+
+function describeLocation(filePath, line) {
+  return `${path.relative(process.cwd(), filePath)}:${line}`;
+}
+
+function reportRowError(row, message) {
+  const { filePath, line } = rowLocations.get(row);
+  contentErrors.push(`${describeLocation(filePath, line)}: ${message}`);
+  rowsWithErrors.add(row);
+}
+
 // Base elements get fixed hex IDs (same across all languages)
 const BASE_ELEMENTS = {
   'water': '0',
@@ -44,24 +72,30 @@ function generateHexId(elementId) {
 // Parse TSV file
 function parseTSV(filePath) {
   const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n').filter(line => line.trim() && !line.startsWith('#'));
+  // Keep the 1-based line numbers of the lines that hold data
+  const lines = content.split('\n')
+    .map((text, index) => ({ text, number: index + 1 }))
+    .filter(line => line.text.trim() && !line.text.startsWith('#'));
   
   if (lines.length === 0) {
     throw new Error(`No data found in ${filePath}`);
   }
   
-  const headers = lines[0].split('\t');
+  const headers = lines[0].text.split('\t');
   const data = [];
   
   for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split('\t');
-    if (values.length >= headers.length) {
-      const row = {};
-      headers.forEach((header, index) => {
-        row[header.trim()] = values[index] ? values[index].trim() : '';
-      });
-      data.push(row);
+    const values = lines[i].text.split('\t');
+    if (values.length !== headers.length) {
+      contentErrors.push(`${describeLocation(filePath, lines[i].number)}: Expected ${headers.length} columns (${headers.map(h => h.trim()).join(', ')}), found ${values.length}`);
+      continue;
     }
+    const row = {};
+    headers.forEach((header, index) => {
+      row[header.trim()] = values[index] ? values[index].trim() : '';
+    });
+    rowLocations.set(row, { filePath, line: lines[i].number });
+    data.push(row);
   }
   
   return data;
@@ -88,11 +122,24 @@ function generateUITranslations(lang) {
   return {
     ui: {
       buttons: {
+        undo: lang === 'es' ? 'Deshacer' : 'Undo',
+        redo: lang === 'es' ? 'Rehacer' : 'Redo',
         autoArrange: lang === 'es' ? 'Organizar Automáticamente' : 'Auto Arrange',
         removeDuplicate: lang === 'es' ? 'Eliminar Duplicados' : 'Remove Duplicate',
         clear: lang === 'es' ? 'Limpiar' : 'Clear',
         reset: lang === 'es' ? 'Reiniciar' : 'Reset',
-        close: lang === 'es' ? 'Cerrar' : 'Close'
+        close: lang === 'es' ? 'Cerrar' : 'Close',
+        exportSave: lang === 'es' ? 'Exportar partida' : 'Export Save',
+        importSave: lang === 'es' ? 'Importar partida' : 'Import Save',
+        profiles: lang === 'es' ? 'Perfiles' : 'Profiles',
+        backups: lang === 'es' ? 'Copias de seguridad' : 'Backups',
+        copyShareLink: lang === 'es' ? 'Copiar enlace para compartir' : 'Copy Share Link',
+        journal: lang === 'es' ? 'Diario de descubrimientos' : 'Discovery Journal',
+        transmute: lang === 'es' ? 'Transmutar' : 'Transmute',
+        achievements: lang === 'es' ? 'Logros' : 'Achievements',
+        shop: lang === 'es' ? 'Tienda' : 'Shop',
+        hint: lang === 'es' ? 'Pista ({{count}})' : 'Hint ({{count}})',
+        autoAlchemist: lang === 'es' ? 'Autoalquimista' : 'Auto-Alchemist'
       },
       titles: {
         discovered: lang === 'es' ? 'Descubiertos ({{count}})' : 'Discovered ({{count}})',
@@ -112,10 +159,20 @@ function generateUITranslations(lang) {
         removedDuplicates: lang === 'es' ? '¡Eliminados {{count}} duplicado{{s}}!' : 'Removed {{count}} duplicate{{s}}!',
         canvasCleared: lang === 'es' ? '¡Lienzo limpiado!' : 'Canvas cleared!',
         gameReset: lang === 'es' ? '¡Juego reiniciado!' : 'Game reset!',
+        shareLinkCopied: lang === 'es' ? '¡Enlace copiado!' : 'Share link copied!',
+        backupRestored: lang === 'es' ? '¡Copia de seguridad restaurada!' : 'Backup restored!',
+        outOfStock: lang === 'es' ? 'No te queda {{element}}' : 'No {{element}} left',
+        noHints: lang === 'es' ? 'No te quedan pistas. Compra más en la tienda.' : 'No hints left. Buy more in the shop.',
+        upgradeBought: lang === 'es' ? '¡Comprado {{upgrade}}!' : 'Bought {{upgrade}}!',
+        transmuted: lang === 'es' ? '¡Transmutado! +{{stones}} piedras filosofales' : 'Transmuted! +{{stones}} Philosopher\'s Stones',
         added: lang === 'es' ? '¡Agregado {{element}}!' : 'Added {{element}}!',
         keepExperimenting: lang === 'es' ? '¡Sigue experimentando!' : 'Keep experimenting!',
         noElementsFound: lang === 'es' ? 'No se encontraron elementos' : 'No elements found',
-        newElementDiscovered: lang === 'es' ? '¡Nuevo elemento descubierto!' : 'New element discovered!'
+        newElementDiscovered: lang === 'es' ? '¡Nuevo elemento descubierto!' : 'New element discovered!',
+        saveExported: lang === 'es' ? '¡Partida exportada!' : 'Save exported!',
+        saveImported: lang === 'es' ? '¡Partida importada!' : 'Save imported!',
+        importFailed: lang === 'es' ? 'Error al importar: {{error}}' : 'Import failed: {{error}}',
+        storageRecovered: lang === 'es' ? 'Progreso guardado de nuevo' : 'Progress is saving again'
       },
       instructions: {
         step1: lang === 'es' ? 'Arrastra elementos desde el panel de descubrimientos' : 'Drag elements from the discovery panel',
@@ -135,11 +192,200 @@ function generateUITranslations(lang) {
         },
         resetGame: {
           title: lang === 'es' ? 'Reiniciar Juego' : 'Reset Game',
-          message: lang === 'es' ? '¿Estás seguro de que quieres reiniciar el juego? Se perderá todo el progreso.' : 'Are you sure you want to reset the game? All progress will be lost.',
+          message: lang === 'es' ? '¿Estás seguro de que quieres reiniciar el juego? Tu progreso actual se guardará como copia de seguridad. Las transmutaciones y sus bonificaciones se conservan.' : 'Are you sure you want to reset the game? Your current progress is kept as a backup you can restore. Transmutations and their bonuses are kept.',
           confirm: lang === 'es' ? 'Reiniciar' : 'Reset',
           cancel: lang === 'es' ? 'Cancelar' : 'Cancel'
+        },
+        importSave: {
+          title: lang === 'es' ? 'Importar Partida' : 'Import Save',
+          message: lang === 'es' ? '¿Reemplazar tu progreso actual con la partida importada ({{count}} elementos)?' : 'Replace your current progress with the imported save ({{count}} elements)?',
+          confirm: lang === 'es' ? 'Importar' : 'Import',
+          cancel: lang === 'es' ? 'Cancelar' : 'Cancel'
+        },
+        storageFull: {
+          title: lang === 'es' ? 'Almacenamiento lleno' : 'Storage Full',
+          message: lang === 'es' ? 'El navegador no tiene espacio para guardar tu progreso. Libera espacio o exporta tu partida para no perder avances.' : 'Your browser is out of space for this game, so progress is not being saved. Free up space or export your save to avoid losing progress.',
+          confirm: lang === 'es' ? 'Entendido' : 'OK'
+        },
+        loadFailed: {
+          title: lang === 'es' ? 'No se pudo cargar el progreso' : 'Could Not Load Progress',
+          message: lang === 'es' ? 'Tu progreso guardado no se pudo cargar: {{error}} No se guardará nada hasta que empieces de nuevo.' : 'Your saved progress could not be loaded: {{error}} Nothing will be saved until you start fresh.',
+          confirm: lang === 'es' ? 'Empezar de nuevo' : 'Start Fresh',
+          cancel: lang === 'es' ? 'Conservar guardado' : 'Keep Save'
         }
       },
+      essence: {
+        label: lang === 'es' ? 'Esencia' : 'Essence'
+      },
+      offline: {
+        title: lang === 'es' ? 'Mientras no estabas' : 'While You Were Away',
+        message: lang === 'es' ? 'Estuviste fuera {{duration}}. Tu lienzo produjo {{essence}} de esencia.' : 'You were away for {{duration}}. Your board produced {{essence}} essence.',
+        capped: lang === 'es' ? 'El progreso sin conexión tiene un límite de {{max}}.' : 'Offline progress is capped at {{max}}.',
+        confirm: lang === 'es' ? 'Recoger' : 'Collect'
+      },
+      prestige: {
+        title: lang === 'es' ? 'Transmutación' : 'Transmutation',
+        description: lang === 'es' ? 'Transmutar reinicia tus descubrimientos a los cuatro elementos básicos a cambio de piedras filosofales. Los descubrimientos más raros y profundos valen más.' : 'Transmuting resets your discoveries to the four basic elements in exchange for Philosopher\'s Stones. Rarer and deeper discoveries are worth more.',
+        stats: lang === 'es' ? 'Transmutaciones: {{count}} · Piedras: {{stones}}' : 'Transmutations: {{count}} · Stones: {{stones}}',
+        award: lang === 'es' ? 'Transmutar ahora otorga {{stones}} piedras.' : 'Transmuting now awards {{stones}} stones.',
+        notEnough: lang === 'es' ? 'Descubre más elementos para ganar tu primera piedra.' : 'Discover more elements to earn your first stone.',
+        bonusLevel: lang === 'es' ? 'Nivel {{level}} · ×{{multiplier}}' : 'Level {{level}} · ×{{multiplier}}',
+        buy: lang === 'es' ? 'Comprar ({{cost}})' : 'Buy ({{cost}})',
+        bonuses: {
+          production: lang === 'es' ? 'Producción de esencia' : 'Essence production',
+          offline: lang === 'es' ? 'Producción sin conexión' : 'Offline production'
+        },
+        confirmTitle: lang === 'es' ? '¿Transmutar?' : 'Transmute?',
+        confirmMessage: lang === 'es' ? 'Tus descubrimientos, lienzo y esencia se reiniciarán y recibirás {{stones}} piedras filosofales. Se guardará una copia de seguridad.' : 'Your discoveries, canvas and essence will be reset and you will receive {{stones}} Philosopher\'s Stones. A backup is kept.'
+      },
+      shop: {
+        title: lang === 'es' ? 'Tienda' : 'Shop',
+        description: lang === 'es' ? 'Gasta esencia en mejoras. Se pierden al reiniciar o transmutar.' : 'Spend essence on upgrades. They are lost when you reset or transmute.',
+        balance: lang === 'es' ? 'Esencia: {{essence}}' : 'Essence: {{essence}}',
+        level: lang === 'es' ? 'Nivel {{level}}' : 'Level {{level}}',
+        levelOf: lang === 'es' ? 'Nivel {{level}}/{{max}}' : 'Level {{level}}/{{max}}',
+        maxed: lang === 'es' ? 'Máximo' : 'Maxed',
+        buy: lang === 'es' ? '{{cost}} esencia' : '{{cost}} essence',
+        effects: {
+          mergeDistance: lang === 'es' ? '+{{value}} px de alcance para combinar por nivel' : '+{{value}}px merge reach per level',
+          production: lang === 'es' ? '+{{percent}}% de producción de esencia por nivel' : '+{{percent}}% essence production per level',
+          hintRefill: lang === 'es' ? 'Recarga {{value}} pistas' : 'Refills {{value}} hints',
+          autoMergerSlots: lang === 'es' ? '+{{value}} ranura de autocombinador por nivel' : '+{{value}} auto-merger slot per level'
+        },
+        upgrades: {
+          reach: lang === 'es' ? 'Alcance' : 'Reach',
+          efficiency: lang === 'es' ? 'Eficiencia' : 'Efficiency',
+          insight: lang === 'es' ? 'Perspicacia' : 'Insight',
+          automaton: lang === 'es' ? 'Autómata' : 'Automaton'
+        }
+      },
+      autoAlchemist: {
+        title: lang === 'es' ? 'Autoalquimista' : 'Auto-Alchemist',
+        locked: lang === 'es' ? 'Compra un Autómata en la tienda para que el autoalquimista experimente por ti.' : 'Buy an Automaton in the shop to have the auto-alchemist experiment for you.',
+        description: lang === 'es' ? 'Combina elementos de tu inventario por su cuenta, {{slots}} a la vez, incluso en segundo plano.' : 'Combines elements from your inventory on its own, {{slots}} at a time, even in a background tab.',
+        pause: lang === 'es' ? 'Pausar' : 'Pause',
+        resume: lang === 'es' ? 'Reanudar' : 'Resume',
+        interval: lang === 'es' ? 'Cada' : 'Every',
+        seconds: lang === 'es' ? '{{seconds}} s' : '{{seconds}}s',
+        empty: lang === 'es' ? 'Todavía no hay experimentos.' : 'No experiments yet.',
+        success: lang === 'es' ? '{{inputs}} = {{output}}' : '{{inputs}} = {{output}}',
+        failure: lang === 'es' ? '{{inputs}}: nada' : '{{inputs}}: nothing'
+      },
+      achievements: {
+        title: lang === 'es' ? 'Logros' : 'Achievements',
+        description: lang === 'es' ? '{{unlocked}} de {{total}} desbloqueados.' : '{{unlocked}} of {{total}} unlocked.',
+        unlockedAt: lang === 'es' ? 'Desbloqueado el {{date}}' : 'Unlocked {{date}}',
+        progress: lang === 'es' ? '{{current}}/{{target}}' : '{{current}}/{{target}}',
+        unlocked: lang === 'es' ? '🏆 Logro: {{name}}' : '🏆 Achievement: {{name}}',
+        items: {
+          first_merge: {
+            name: lang === 'es' ? 'Primera reacción' : 'First Reaction',
+            description: lang === 'es' ? 'Combina dos elementos.' : 'Combine two elements.'
+          },
+          apprentice: {
+            name: lang === 'es' ? 'Aprendiz' : 'Apprentice',
+            description: lang === 'es' ? 'Combina elementos 100 veces.' : 'Combine elements 100 times.'
+          },
+          collector: {
+            name: lang === 'es' ? 'Coleccionista' : 'Collector',
+            description: lang === 'es' ? 'Descubre 25 elementos.' : 'Discover 25 elements.'
+          },
+          naturalist: {
+            name: lang === 'es' ? 'Naturalista' : 'Naturalist',
+            description: lang === 'es' ? 'Descubre todos los elementos de la naturaleza.' : 'Discover every nature element.'
+          },
+          legend: {
+            name: lang === 'es' ? 'Leyenda' : 'Legend',
+            description: lang === 'es' ? 'Descubre un elemento legendario.' : 'Discover a legendary element.'
+          },
+          quick_study: {
+            name: lang === 'es' ? 'Aprendizaje rápido' : 'Quick Study',
+            description: lang === 'es' ? 'Descubre 10 elementos en 5 minutos.' : 'Discover 10 elements within 5 minutes.'
+          },
+          tidy: {
+            name: lang === 'es' ? 'Borrón y cuenta nueva' : 'Clean Slate',
+            description: lang === 'es' ? 'Limpia el lienzo.' : 'Clear the canvas.'
+          },
+          organizer: {
+            name: lang === 'es' ? 'Organizador' : 'Organizer',
+            description: lang === 'es' ? 'Organiza el lienzo automáticamente 10 veces.' : 'Auto-arrange the canvas 10 times.'
+          }
+        }
+      },
+      tabs: {
+        elements: lang === 'es' ? 'Elementos' : 'Elements',
+        quests: lang === 'es' ? 'Misiones' : 'Quests'
+      },
+      quests: {
+        daily: lang === 'es' ? 'Diaria' : 'Daily',
+        weekly: lang === 'es' ? 'Semanal' : 'Weekly',
+        endsIn: lang === 'es' ? 'Termina en {{time}}' : 'Ends in {{time}}',
+        claim: lang === 'es' ? 'Reclamar' : 'Claim',
+        claimed: lang === 'es' ? 'Reclamada' : 'Claimed',
+        rewardClaimed: lang === 'es' ? '📜 Recompensa: {{reward}}' : '📜 Quest reward: {{reward}}',
+        goals: {
+          make: lang === 'es' ? 'Crea {{element}} {{count}} veces' : 'Create {{element}} {{count}} times',
+          discoverCategory: lang === 'es' ? 'Descubre un nuevo elemento de {{category}}' : 'Discover a new {{category}} element',
+          merges: lang === 'es' ? 'Combina elementos {{count}} veces' : 'Combine elements {{count}} times'
+        },
+        rewards: {
+          essence: lang === 'es' ? '{{amount}} de esencia' : '{{amount}} essence',
+          hints: lang === 'es' ? '{{amount}} pistas' : '{{amount}} hints'
+        },
+        categories: {
+          nature: lang === 'es' ? 'naturaleza' : 'nature',
+          science: lang === 'es' ? 'ciencia' : 'science',
+          life: lang === 'es' ? 'vida' : 'life',
+          civilization: lang === 'es' ? 'civilización' : 'civilization',
+          technology: lang === 'es' ? 'tecnología' : 'technology',
+          magic: lang === 'es' ? 'magia' : 'magic',
+          abstract: lang === 'es' ? 'abstracto' : 'abstract'
+        }
+      },
+      journal: {
+        title: lang === 'es' ? 'Diario de descubrimientos' : 'Discovery Journal',
+        description: lang === 'es' ? '{{count}} descubrimientos, del más reciente al más antiguo.' : '{{count}} discoveries, newest first.',
+        empty: lang === 'es' ? 'Combina elementos para registrar tus descubrimientos aquí.' : 'Combine elements to record your discoveries here.',
+        exportCsv: lang === 'es' ? 'Exportar CSV' : 'Export CSV',
+        exportJson: lang === 'es' ? 'Exportar JSON' : 'Export JSON'
+      },
+      share: {
+        title: lang === 'es' ? 'Compartir progreso' : 'Share Progress',
+        copyManually: lang === 'es' ? 'Copia este enlace para compartir tus descubrimientos:' : 'Copy this link to share your discoveries:',
+        loadTitle: lang === 'es' ? 'Cargar progreso compartido' : 'Load Shared Progress',
+        loadMessage: lang === 'es' ? '¿Reemplazar tu progreso actual con el progreso compartido ({{count}} elementos)?' : 'Replace your current progress with the shared progress ({{count}} elements)?'
+      },
+      backups: {
+        title: lang === 'es' ? 'Copias de seguridad' : 'Backups',
+        description: lang === 'es' ? 'Partidas guardadas recientes. Restaurar una reemplaza tu progreso actual, que también se guarda como copia.' : 'Recent saves. Restoring one replaces your current progress, which is backed up as well.',
+        empty: lang === 'es' ? 'Todavía no hay copias de seguridad.' : 'There are no backups yet.',
+        recoverHint: lang === 'es' ? 'También puedes restaurar una copia de seguridad:' : 'You can also restore a backup:',
+        discovered: lang === 'es' ? '{{count}} elementos' : '{{count}} elements',
+        restore: lang === 'es' ? 'Restaurar' : 'Restore',
+        restoreTitle: lang === 'es' ? 'Restaurar copia de seguridad' : 'Restore Backup',
+        restoreMessage: lang === 'es' ? '¿Reemplazar tu progreso con la copia del {{date}} ({{count}} elementos)?' : 'Replace your progress with the backup from {{date}} ({{count}} elements)?',
+        reasons: {
+          auto: lang === 'es' ? 'Automática' : 'Automatic',
+          reset: lang === 'es' ? 'Antes de reiniciar' : 'Before reset',
+          restore: lang === 'es' ? 'Antes de restaurar' : 'Before restore',
+          transmute: lang === 'es' ? 'Antes de transmutar' : 'Before transmute'
+        }
+      },
+      profiles: {
+        title: lang === 'es' ? 'Perfiles' : 'Profiles',
+        description: lang === 'es' ? 'Cada perfil tiene sus propios descubrimientos, lienzo y preferencias.' : 'Each profile has its own discoveries, canvas and preferences.',
+        active: lang === 'es' ? 'Activo' : 'Active',
+        switch: lang === 'es' ? 'Cambiar' : 'Switch',
+        rename: lang === 'es' ? 'Renombrar' : 'Rename',
+        duplicate: lang === 'es' ? 'Duplicar' : 'Duplicate',
+        delete: lang === 'es' ? 'Eliminar' : 'Delete',
+        create: lang === 'es' ? 'Nuevo perfil' : 'New Profile',
+        save: lang === 'es' ? 'Guardar' : 'Save',
+        namePlaceholder: lang === 'es' ? 'Nombre del perfil' : 'Profile name',
+        copyName: lang === 'es' ? '{{name}} (copia)' : '{{name}} (copy)',
+        deleteTitle: lang === 'es' ? 'Eliminar perfil' : 'Delete Profile',
+        deleteMessage: lang === 'es' ? '¿Eliminar "{{name}}" y todo su progreso? No se puede deshacer.' : 'Delete "{{name}}" and all of its progress? This cannot be undone.'
+      },
       languageSelector: {
         label: lang === 'es' ? 'Idioma' : 'Language'
       },
@@ -149,7 +395,9 @@ function generateUITranslations(lang) {
       dragToCanvas: lang === 'es' ? 'Arrastra al lienzo' : 'Drag to canvas'
     },
     hints: {
-      tryCombing: lang === 'es' ? 'Intenta combinar {{element1}} con {{element2}}' : 'Try combining {{element1}} with {{element2}}'
+      tryCombing: lang === 'es' ? 'Intenta combinar {{element1}} con {{element2}}' : 'Try combining {{element1}} with {{element2}}',
+      tryCombiningAll: lang === 'es' ? 'Intenta combinar {{elements}} a la vez' : 'Try combining {{elements}} together',
+      withCatalyst: lang === 'es' ? '{{hint}}, con {{catalyst}} cerca' : '{{hint}}, with {{catalyst}} nearby'
     }
   };
 }
@@ -177,6 +425,94 @@ function determineCategory(hexId) {
   return 'abstract';
 }
 
+/**
+ * Reports elements that are their own prerequisite and elements that cannot
+ * be made from the base elements. A row's parents are its prerequisites.
+ */
+function validateRecipeGraph(rows, recipes, idMapping) {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const parentsOf = id => {
+    const row = rowsById.get(id);
+    if (!row || !row.parents) return [];
+    return row.parents.split('>')[0].split('+').map(p => p.trim()).filter(p => rowsById.has(p));
+  };
+  
+  // Depth-first search; reaching an element that is still on the trail closes a cycle
+  const visited = new Map(); // id -> 'visiting' | 'done'
+  const inCycle = new Set();
+  const visit = (id, trail) => {
+    if (visited.get(id) === 'done') return;
+    if (visited.get(id) === 'visiting') {
+      const cycle = [...trail.slice(trail.indexOf(id)), id];
+      cycle.forEach(member => inCycle.add(member));
+      reportRowError(rowsById.get(id), `"${id}" is its own prerequisite: ${cycle.join(' → ')}`);
+      return;
+    }
+    visited.set(id, 'visiting');
+    parentsOf(id).forEach(parent => visit(parent, [...trail, id]));
+    visited.set(id, 'done');
+  };
+  rows.forEach(row => visit(row.id, []));
+  
+  // Grow the reachable set from the base elements until no recipe adds to it
+  const reachable = new Set(Object.keys(BASE_ELEMENTS).map(id => idMapping[id]).filter(Boolean));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    recipes.forEach(recipe => {
+      const ingredients = recipe.catalyst ? [...recipe.inputs, recipe.catalyst] : recipe.inputs;
+      if (!ingredients.every(id => reachable.has(id))) return;
+      recipe.outputs.filter(id => !reachable.has(id)).forEach(id => {
+        reachable.add(id);
+        grew = true;
+      });
+    });
+  }
+  rows.forEach(row => {
+    if (!reachable.has(idMapping[row.id]) && !inCycle.has(row.id) && !rowsWithErrors.has(row)) {
+      reportRowError(row, `"${row.id}" cannot be made from the base elements`);
+    }
+  });
+}
+
+// Decay rules are the same in every language; elements a language lacks are skipped
+console.log('⏳ Loading decay rules...');
+// Shared rules may name elements of any language, but must name real ones
+const knownElementIds = new Set(LANGUAGES.flatMap(lang => languageData[lang].map(row => row.id)));
+
+const decayRules = parseTSV(path.join(CONFIG_DIR, 'decay.tsv')).filter(row => {
+  const lifetime = Number(row.lifetime);
+  if (!knownElementIds.has(row.id)) {
+    reportRowError(row, `Decay rule for unknown element "${row.id}"`);
+    return false;
+  }
+  if (!(lifetime > 0)) {
+    reportRowError(row, `Decay rule for "${row.id}" needs a positive lifetime, got "${row.lifetime}"`);
+    return false;
+  }
+  if (!row.byproduct || row.byproduct === row.id) {
+    reportRowError(row, `Decay rule for "${row.id}" needs a byproduct other than itself`);
+    return false;
+  }
+  return true;
+});
+console.log(`✓ Loaded ${decayRules.length} decay rules`);
+
+// Catalysts are the same in every language; recipes a language lacks are skipped
+console.log('⚗️  Loading catalysts...');
+const catalystRules = parseTSV(path.join(CONFIG_DIR, 'catalysts.tsv')).filter(row => {
+  if (!knownElementIds.has(row.id)) {
+    reportRowError(row, `Catalyst rule for unknown element "${row.id}"`);
+    return false;
+  }
+  if (!row.catalyst || row.catalyst === row.id) {
+    reportRowError(row, `Catalyst rule for "${row.id}" needs a catalyst other than the element itself`);
+    return false;
+  }
+  return true;
+});
+console.log(`✓ Loaded ${catalystRules.length} catalysts`);
+
 // Process each language separately
 console.log('⚙️  Generating per-language compiled data...');
 
@@ -202,8 +538,8 @@ for (const lang of LANGUAGES) {
     }
   });
   
-  // Track recipes for duplicate detection
-  const processedRecipes = new Map();
+  // Valid recipes with the rows they come from; duplicates are checked once catalysts are applied
+  const candidates = [];
   
   // PASS 2: Process elements and build recipes now that the full ID map is ready.
   data.forEach(row => {
@@ -216,40 +552,98 @@ for (const lang of LANGUAGES) {
       emoji: row.emoji,
       name: row.name,
       rarity: determineRarity(hexId),
-      category: determineCategory(hexId)
+      category: determineCategory(hexId),
+      decay: null
     };
     
-    // Process recipe if it has parents
+    // Process recipe if it has parents (two or more, joined with +),
+    // optionally followed by byproducts after > (e.g. sea+fire>steam)
     if (row.parents && row.parents.trim()) {
-      const parents = row.parents.split('+').map(p => p.trim());
-      if (parents.length === 2) {
-        const input1 = idMapping[parents[0].trim()];
-        const input2 = idMapping[parents[1].trim()];
+      const [parentList, byproductList = ''] = row.parents.split('>');
+      const parents = parentList.split('+').map(p => p.trim());
+      const byproducts = byproductList.split('+').map(p => p.trim()).filter(p => p);
+      if (parents.length >= 2) {
+        const inputs = parents.map(parent => idMapping[parent]);
+        const outputs = [row.id, ...byproducts].map(output => idMapping[output]);
         
-        if (input1 && input2) {
-          const recipeKey = [input1, input2].sort().join('+');
-          
-          if (processedRecipes.has(recipeKey)) {
-            const existingOutputHex = processedRecipes.get(recipeKey);
-            const existingOutputId = hexToOriginal[existingOutputHex];
-            console.error(`❌ DUPLICATE RECIPE ERROR in ${lang}: The combination "${row.parents}" is used to create both "${existingOutputId}" and "${row.id}".`);
-            console.error(`   This will cause unpredictable behavior. Please resolve the conflict in elements.${lang}.tsv`);
-          } else {
-            recipes.push({
-              inputs: [input1, input2],
-              output: idMapping[row.id]
-            });
-            processedRecipes.set(recipeKey, idMapping[row.id]);
-          }
+        const unknownParents = parents.filter(parent => !idMapping[parent]);
+        const unknownByproducts = byproducts.filter(byproduct => !idMapping[byproduct]);
+        
+        if (unknownParents.length > 0) {
+          reportRowError(row, `Recipe for "${row.id}" uses unknown parents: ${unknownParents.join(', ')}`);
+        } else if (unknownByproducts.length > 0) {
+          reportRowError(row, `Recipe for "${row.id}" has unknown byproducts: ${unknownByproducts.join(', ')}`);
+        } else if (byproducts.includes(row.id) || new Set(byproducts).size !== byproducts.length) {
+          reportRowError(row, `Recipe for "${row.id}" lists an output twice: ${row.parents}`);
         } else {
-          console.warn(`Warning in ${lang}: Recipe for ${row.id} contains unknown elements: ${row.parents}`);
+          candidates.push({
+            row,
+            recipe: {
+              inputs,
+              outputs,
+              catalyst: null
+            }
+          });
         }
+      } else {
+        reportRowError(row, `Recipe for "${row.id}" needs at least two parents: ${row.parents}`);
       }
     }
   });
   
-  console.log(`✓ Generated ${Object.keys(elements).length} elements with hex IDs`);
-  console.log(`✓ Generated ${recipes.length} recipes`);
+  // Lifetimes are compiled to milliseconds and byproducts to hex IDs
+  let decaying = 0;
+  decayRules.forEach(rule => {
+    const element = elements[idMapping[rule.id]];
+    if (!element) return;
+    const byproduct = idMapping[rule.byproduct];
+    if (!byproduct) {
+      reportRowError(rule, `Decay byproduct "${rule.byproduct}" of "${rule.id}" is not an element in ${lang}`);
+      return;
+    }
+    element.decay = { lifetime: Number(rule.lifetime) * 1000, byproduct };
+    decaying++;
+  });
+  
+  // A catalyst applies to the recipe whose main output is the rule's element
+  let catalyzed = 0;
+  catalystRules.forEach(rule => {
+    if (!idMapping[rule.id]) return;
+    const candidate = candidates.find(c => c.recipe.outputs[0] === idMapping[rule.id]);
+    if (!candidate) {
+      reportRowError(rule, `Catalyst rule for "${rule.id}", which has no recipe in ${lang}`);
+      return;
+    }
+    const catalyst = idMapping[rule.catalyst];
+    if (!catalyst) {
+      reportRowError(rule, `Catalyst "${rule.catalyst}" of "${rule.id}" is not an element in ${lang}`);
+      return;
+    }
+    candidate.recipe.catalyst = catalyst;
+    catalyzed++;
+  });
+  
+  // Recipes are looked up by their inputs alone, so a catalyst does not tell two apart
+  const recipesByInputs = new Map();
+  candidates.forEach(({ row, recipe }) => {
+    const recipeKey = [...recipe.inputs].sort().join('+');
+    const existing = recipesByInputs.get(recipeKey);
+    
+    if (existing && existing.row.id !== row.id) {
+      const { line } = rowLocations.get(existing.row);
+      const parentList = row.parents.split('>')[0].trim();
+      const catalysts = [existing.recipe, recipe].some(r => r.catalyst) ? ' (catalysts do not make recipes distinct)' : '';
+      reportRowError(row, `Duplicate recipe: "${parentList}" already makes "${existing.row.id}" (line ${line}), not also "${row.id}"${catalysts}`);
+    } else if (!existing) {
+      recipes.push(recipe);
+      recipesByInputs.set(recipeKey, { row, recipe });
+    }
+  });
+  
+  validateRecipeGraph(data, recipes, idMapping);
+  
+  console.log(`✓ Generated ${Object.keys(elements).length} elements with hex IDs (${decaying} decay)`);
+  console.log(`✓ Generated ${recipes.length} recipes (${catalyzed} with catalysts)`);
   
   // Store compiled data for this language
   allCompiledData[lang] = {
@@ -267,6 +661,85 @@ for (const lang of LANGUAGES) {
   allIdMappings[lang] = { originalToHex: idMapping, hexToOriginal };
 }
 
+// Shop upgrades are the same in every language; names come from the UI translations
+const UPGRADE_EFFECTS = ['mergeDistance', 'production', 'hintRefill', 'autoMergerSlots'];
+
+console.log('\n🛒 Processing upgrades...');
+const upgrades = [];
+parseTSV(path.join(CONFIG_DIR, 'upgrades.tsv')).forEach(row => {
+  const upgrade = {
+    id: row.id,
+    effect: row.effect,
+    baseCost: Number(row.base_cost),
+    costGrowth: Number(row.cost_growth),
+    value: Number(row.value),
+    maxLevel: row.max_level ? Number(row.max_level) : null
+  };
+  
+  if (!UPGRADE_EFFECTS.includes(upgrade.effect)) {
+    reportRowError(row, `Upgrade "${row.id}" has unknown effect "${row.effect}" (expected one of ${UPGRADE_EFFECTS.join(', ')})`);
+    return;
+  }
+  const numbers = [upgrade.baseCost, upgrade.costGrowth, upgrade.value, upgrade.maxLevel ?? 0];
+  if (numbers.some(value => !Number.isFinite(value) || value < 0)) {
+    reportRowError(row, `Upgrade "${row.id}" has an invalid number`);
+    return;
+  }
+  upgrades.push(upgrade);
+});
+console.log(`✓ Loaded ${upgrades.length} upgrades`);
+
+// Achievements are the same in every language; names come from the UI translations
+const ACHIEVEMENT_TRIGGERS = ['merge', 'discovery', 'clear', 'arrange'];
+const ACHIEVEMENT_FILTERS = {
+  category: ['basic', 'nature', 'science', 'life', 'civilization', 'technology', 'magic', 'abstract'],
+  rarity: ['basic', 'common', 'uncommon', 'rare', 'legendary']
+};
+
+console.log('\n🏆 Processing achievements...');
+const achievements = [];
+parseTSV(path.join(CONFIG_DIR, 'achievements.tsv')).forEach(row => {
+  const [filterType, filterValue] = row.filter ? row.filter.split(':').map(part => part.trim()) : [];
+  const achievement = {
+    id: row.id,
+    trigger: row.trigger,
+    filter: row.filter ? { type: filterType, value: filterValue } : null,
+    amount: row.amount === 'all' ? null : Number(row.amount),
+    within: row.within ? Number(row.within) : null
+  };
+  
+  if (!ACHIEVEMENT_TRIGGERS.includes(achievement.trigger)) {
+    reportRowError(row, `Achievement "${row.id}" has unknown trigger "${row.trigger}" (expected one of ${ACHIEVEMENT_TRIGGERS.join(', ')})`);
+    return;
+  }
+  const filterValues = Object.hasOwn(ACHIEVEMENT_FILTERS, filterType) ? ACHIEVEMENT_FILTERS[filterType] : [];
+  if (achievement.filter && (achievement.trigger !== 'discovery' || !filterValues.includes(filterValue))) {
+    reportRowError(row, `Achievement "${row.id}" has an invalid filter "${row.filter}"`);
+    return;
+  }
+  if (achievement.amount === null ? !achievement.filter : !(achievement.amount > 0)) {
+    reportRowError(row, `Achievement "${row.id}" needs a positive amount, or "all" with a filter`);
+    return;
+  }
+  if (achievement.within !== null && (achievement.trigger !== 'discovery' || !(achievement.within > 0))) {
+    reportRowError(row, `Achievement "${row.id}" has an invalid time window "${row.within}"`);
+    return;
+  }
+  achievements.push(achievement);
+});
+console.log(`✓ Loaded ${achievements.length} achievements`);
+
+if (contentErrors.length > 0) {
+  console.error(`\n❌ Found ${contentErrors.length} content error(s):`);
+  contentErrors.forEach(error => console.error(`   ${error}`));
+  process.exit(1);
+}
+
+if (VALIDATE_ONLY) {
+  console.log('\n✅ Content is valid');
+  process.exit(0);
+}
+
 // Save compiled files
 console.log('\n💾 Saving compiled files...');
 
@@ -274,6 +747,8 @@ console.log('\n💾 Saving compiled files...');
 const mainCompiledData = {
   languages: LANGUAGES,
   data: allCompiledData,
+  upgrades,
+  achievements,
   metadata: {
     version: '2.0.0',
     compiledAt: new Date().toISOString(),
@@ -0,0 +1,119 @@
+import { configLoader, Achievement, AchievementTrigger } from '@/config/ConfigLoader';
+import { JournalEntry } from './SaveFormat';
+
+/**
+ * Achievements. Definitions come from achievements.tsv via the compiled
+ * config; this tracks the lifetime counters they need and when each was
+ * unlocked. Achievements are evaluated when their trigger event happens and
+ * are kept through resets and transmutations.
+ */
+
+export interface AchievementStats {
+  merges: number;
+  clears: number;
+  arranges: number;
+}
+
+export interface AchievementState {
+  // Achievement ID -> unlock time (ISO)
+  unlocked: Record<string, string>;
+  stats: AchievementStats;
+}
+
+// What discovery achievements are evaluated against
+export interface AchievementContext {
+  discoveredIds: string[];
+  journal: JournalEntry[];
+}
+
+const TRIGGER_STATS: Partial<Record<AchievementTrigger, keyof AchievementStats>> = {
+  merge: 'merges',
+  clear: 'clears',
+  arrange: 'arranges'
+};
+
+export function createAchievementState(): AchievementState {
+  return { unlocked: {}, stats: { merges: 0, clears: 0, arranges: 0 } };
+}
+
+export class AchievementManager {
+  private state: AchievementState = createAchievementState();
+
+  public getState(): AchievementState {
+    return { unlocked: { ...this.state.unlocked }, stats: { ...this.state.stats } };
+  }
+
+  public loadState(state: AchievementState): void {
+    this.state = { unlocked: { ...state.unlocked }, stats: { ...state.stats } };
+  }
+
+  // Adds another tab's unlocks and counters, keeping the earliest unlock times
+  public mergeState(other: AchievementState): void {
+    Object.entries(other.unlocked).forEach(([id, unlockedAt]) => {
+      const current = this.state.unlocked[id];
+      if (!current || unlockedAt < current) {
+        this.state.unlocked[id] = unlockedAt;
+      }
+    });
+    (Object.keys(this.state.stats) as (keyof AchievementStats)[]).forEach(stat => {
+      this.state.stats[stat] = Math.max(this.state.stats[stat], other.stats[stat]);
+    });
+  }
+
+  public getAchievements(): Achievement[] {
+    return configLoader.getAchievements();
+  }
+
+  public getUnlockedAt(id: string): string | null {
+    return this.state.unlocked[id] ?? null;
+  }
+
+  public getProgress(achievement: Achievement, context: AchievementContext): { current: number; target: number } {
+    const stat = TRIGGER_STATS[achievement.trigger];
+    if (stat) {
+      return { current: this.state.stats[stat], target: achievement.amount ?? 0 };
+    }
+
+    const matches = (id: string) => {
+      if (!achievement.filter) return true;
+      const element = configLoader.getElementById(id);
+      return element?.[achievement.filter.type] === achievement.filter.value;
+    };
+
+    let current: number;
+    if (achievement.within !== null) {
+      const since = new Date(Date.now() - achievement.within * 1000).toISOString();
+      current = context.journal.filter(entry => entry.discoveredAt >= since && matches(entry.elementId)).length;
+    } else {
+      current = context.discoveredIds.filter(matches).length;
+    }
+    const target = achievement.amount ??
+      configLoader.getGameConfig().elements.filter(element => matches(element.id)).length;
+    return { current, target };
+  }
+
+  /**
+   * Counts one trigger event and returns the achievements it unlocked.
+   * Without a trigger, checks every achievement (e.g. after loading a save).
+   */
+  public record(trigger: AchievementTrigger | null, context: AchievementContext): Achievement[] {
+    const stat = trigger && TRIGGER_STATS[trigger];
+    if (stat) {
+      this.state.stats[stat]++;
+    }
+
+    const unlocked = this.getAchievements().filter(achievement => {
+      if (this.state.unlocked[achievement.id]) return false;
+      if (trigger && achievement.trigger !== trigger) return false;
+      const { current, target } = this.getProgress(achievement, context);
+      return target > 0 && current >= target;
+    });
+
+    const now = new Date().toISOString();
+    unlocked.forEach(achievement => {
+      this.state.unlocked[achievement.id] = now;
+      console.log(`🏆 Achievement unlocked: ${achievement.id}`);
+    });
+    return unlocked;
+  }
+}
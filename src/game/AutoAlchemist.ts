@@ -0,0 +1,115 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { storage } from '@/storage/StorageService';
+import { ElementManager } from './ElementManager';
+
+/**
+ * The auto-alchemist experiments on its own: every interval it picks two
+ * discovered elements in stock and tries them as a recipe. A success is a
+ * real merge, spending the inputs and recording the output like a player
+ * merge would. It is unlocked by auto-merger slots from the shop; each slot
+ * is one experiment per interval.
+ */
+
+export interface AutoAlchemistSettings {
+  interval: number; // ms between experiments
+  paused: boolean;
+}
+
+export interface AutoAlchemistLogEntry {
+  inputs: [string, string];
+  // Empty when the pair makes nothing
+  outputs: string[];
+  newDiscoveries: string[];
+  at: string;
+}
+
+export const AUTO_ALCHEMIST_INTERVALS = [1000, 2000, 5000, 10000]; // ms
+const DEFAULT_SETTINGS: AutoAlchemistSettings = { interval: 2000, paused: false };
+const MAX_LOG_ENTRIES = 50;
+// Bounds the experiments run at once to catch up on a long absence
+const MAX_CATCH_UP_EXPERIMENTS = 500;
+
+export class AutoAlchemist {
+  private elapsed: number = 0;
+  private log: AutoAlchemistLogEntry[] = [];
+
+  constructor(private elementManager: ElementManager) {}
+
+  // Stored per profile, so other tabs pick up changes
+  public getSettings(): AutoAlchemistSettings {
+    return { ...DEFAULT_SETTINGS, ...storage.get('autoAlchemist') };
+  }
+
+  public setInterval(interval: number): void {
+    storage.set('autoAlchemist', { ...this.getSettings(), interval });
+  }
+
+  public setPaused(paused: boolean): void {
+    storage.set('autoAlchemist', { ...this.getSettings(), paused });
+  }
+
+  // Newest first
+  public getLog(): AutoAlchemistLogEntry[] {
+    return [...this.log].reverse();
+  }
+
+  public clearLog(): void {
+    this.log = [];
+  }
+
+  /**
+   * Advances by elapsedMS and runs the experiments that became due.
+   * Returns what they did, oldest first.
+   */
+  public tick(elapsedMS: number, slots: number): AutoAlchemistLogEntry[] {
+    const settings = this.getSettings();
+    if (slots <= 0 || settings.paused) {
+      this.elapsed = 0;
+      return [];
+    }
+
+    this.elapsed += elapsedMS;
+    const due = Math.floor(this.elapsed / settings.interval);
+    if (due === 0) return [];
+    this.elapsed -= due * settings.interval;
+
+    const entries: AutoAlchemistLogEntry[] = [];
+    const count = Math.min(due * slots, MAX_CATCH_UP_EXPERIMENTS);
+    for (let i = 0; i < count; i++) {
+      const entry = this.experiment();
+      if (!entry) break; // Nothing left in stock to try
+      entries.push(entry);
+    }
+
+    this.log.push(...entries);
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.splice(0, this.log.length - MAX_LOG_ENTRIES);
+    }
+    return entries;
+  }
+
+  private experiment(): AutoAlchemistLogEntry | null {
+    const stocked = this.elementManager.getDiscoveredIds()
+      .filter(id => this.elementManager.getElementCount(id) > 0);
+    if (stocked.length === 0) return null;
+
+    const first = stocked[Math.floor(Math.random() * stocked.length)];
+    // The same element twice needs two of it
+    const partners = stocked.filter(id => id !== first || this.elementManager.getElementCount(id) > 1);
+    if (partners.length === 0) return null;
+    const second = partners[Math.floor(Math.random() * partners.length)];
+
+    const at = new Date().toISOString();
+    // A catalyst has to be in stock; it is not used up
+    const recipe = configLoader.getRecipeByInputs(first, second);
+    if (!recipe || (recipe.catalyst && this.elementManager.getElementCount(recipe.catalyst) === 0)) {
+      return { inputs: [first, second], outputs: [], newDiscoveries: [], at };
+    }
+
+    this.elementManager.takeElement(first);
+    this.elementManager.takeElement(second);
+    const newDiscoveries = this.elementManager.recordMerge(recipe.outputs, [first, second]);
+    console.log(`🤖 Auto-alchemist made ${recipe.outputs.join(', ')} from ${first} + ${second}`);
+    return { inputs: [first, second], outputs: recipe.outputs, newDiscoveries, at };
+  }
+}
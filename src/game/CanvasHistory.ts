@@ -0,0 +1,74 @@
+import { WorkspaceState } from './SaveFormat';
+
+/**
+ * Undo/redo history for canvas operations.
+ *
+ * Each command stores the canvas before and after the operation, in the same
+ * form the save uses. Undo and redo restore one of the two states, so every
+ * operation is reversible the same way however it changed the canvas.
+ * Discoveries are not part of the canvas state: undoing a merge brings the
+ * inputs back but keeps the result discovered. Inventory counts an operation
+ * spent or produced are recorded with it and reverted as well. Decay cannot
+ * be reverted, so it drops only the commands whose states contain the decayed
+ * element; restoring them would bring it back with a stale lifetime.
+ */
+
+export type CanvasAction = 'add' | 'move' | 'merge' | 'clear' | 'removeDuplicates' | 'autoArrange';
+
+export interface CanvasCommand {
+  action: CanvasAction;
+  before: WorkspaceState;
+  after: WorkspaceState;
+  // Inventory count changes by element ID
+  inventory?: Record<string, number>;
+}
+
+export class CanvasHistory {
+  private static readonly MAX_ENTRIES = 100;
+  private undoStack: CanvasCommand[] = [];
+  private redoStack: CanvasCommand[] = [];
+
+  public record(command: CanvasCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > CanvasHistory.MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+    // A new operation branches off: whatever was undone can no longer be redone
+    this.redoStack = [];
+  }
+
+  public undo(): CanvasCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    this.redoStack.push(command);
+    return command;
+  }
+
+  public redo(): CanvasCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    this.undoStack.push(command);
+    return command;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Drops every undo and redo command whose canvas states contain one of these elements
+  public forgetElements(elementIds: Set<string>): void {
+    const mentions = (command: CanvasCommand) => [command.before, command.after]
+      .some(state => state.elements.some(element => elementIds.has(element.id)));
+    this.undoStack = this.undoStack.filter(command => !mentions(command));
+    this.redoStack = this.redoStack.filter(command => !mentions(command));
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
@@ -0,0 +1,51 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { JournalEntry } from './SaveFormat';
+
+/**
+ * Discovery journal exports for content design: when each element was first
+ * made, from which inputs, and in which play session. Exports use the original
+ * TSV element IDs so they can be read against elements.*.tsv directly.
+ */
+
+// Identifies this page load; every discovery made before a reload shares it
+export const SESSION_ID = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+interface JournalExportRow {
+  discoveredAt: string;
+  elementId: string;
+  elementName: string;
+  inputs: string[];
+  sessionId: string;
+}
+
+export function journalToJson(entries: JournalEntry[]): string {
+  return JSON.stringify(entries.map(toExportRow), null, 2);
+}
+
+// Inputs are joined with '+', as in the TSV parents column
+export function journalToCsv(entries: JournalEntry[]): string {
+  const header = ['discovered_at', 'element_id', 'element_name', 'inputs', 'session_id'];
+  const rows = entries.map(toExportRow).map(row => [
+    row.discoveredAt,
+    row.elementId,
+    row.elementName,
+    row.inputs.join('+'),
+    row.sessionId
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n') + '\n';
+}
+
+function toExportRow(entry: JournalEntry): JournalExportRow {
+  const element = configLoader.getElementById(entry.elementId);
+  return {
+    discoveredAt: entry.discoveredAt,
+    elementId: element?.originalId ?? entry.elementId,
+    elementName: element?.name ?? '',
+    inputs: entry.inputs.map(id => configLoader.getElementById(id)?.originalId ?? id),
+    sessionId: entry.sessionId
+  };
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
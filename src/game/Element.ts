@@ -1,6 +1,7 @@
 import * as PIXI from 'pixi.js';
 import { ElementDefinition } from '@/config/ConfigLoader';
 import { i18n } from '@/i18n/Translation';
+import { scheduler, FRAME_MS } from './Scheduler';
 
 export class Element extends PIXI.Container {
   public definition: ElementDefinition;
@@ -9,11 +10,16 @@ export class Element extends PIXI.Container {
   private nameText!: PIXI.Text;
   private isDragging: boolean = false;
   private dragOffset: PIXI.Point = new PIXI.Point();
+  // Time left before an unstable element decays; null for stable elements
+  private lifetime: number | null;
+  private decayRing: PIXI.Graphics | null = null;
+  private merging: boolean = false;
   
   constructor(definition: ElementDefinition, x: number = 0, y: number = 0) {
     super();
     
     this.definition = definition;
+    this.lifetime = definition.decay?.lifetime ?? null;
     this.x = x;
     this.y = y;
     
@@ -54,6 +60,12 @@ export class Element extends PIXI.Container {
     this.nameText.scale.set(1 / hdScale); // Scale down to normal size
     this.addChild(this.nameText);
     
+    if (this.definition.decay) {
+      this.decayRing = new PIXI.Graphics();
+      this.addChild(this.decayRing);
+      this.updateDecayVisuals();
+    }
+    
     // Set up dark mode listener
     this.setupDarkModeListener();
   }
@@ -310,36 +322,77 @@ export class Element extends PIXI.Container {
       alpha: 0.5
     };
     
-    // Fast animation using requestAnimationFrame
-    const animate = () => {
-      tween.scale += (1 - tween.scale) * 0.25;
-      tween.alpha += (1 - tween.alpha) * 0.25;
+    // Ease towards full size a quarter of the way each frame
+    scheduler.onFrame(deltaMS => {
+      if (this.destroyed) return false;
+      const step = 1 - Math.pow(0.75, deltaMS / FRAME_MS);
+      tween.scale += (1 - tween.scale) * step;
+      tween.alpha += (1 - tween.alpha) * step;
       
       this.scale.set(tween.scale);
       this.alpha = tween.alpha;
       
-      if (Math.abs(tween.scale - 1) > 0.01) {
-        requestAnimationFrame(animate);
-      } else {
-        this.scale.set(1);
-        this.alpha = 1;
-      }
-    };
+      if (Math.abs(tween.scale - 1) > 0.01) return;
+      this.scale.set(1);
+      this.alpha = 1;
+      return false;
+    });
+  }
+  
+  public getLifetime(): number | null {
+    return this.lifetime;
+  }
+  
+  public setLifetime(lifetime: number): void {
+    if (this.lifetime === null || !this.definition.decay) return;
+    this.lifetime = Math.max(0, Math.min(lifetime, this.definition.decay.lifetime));
+    this.updateDecayVisuals();
+  }
+  
+  /**
+   * Counts down an unstable element's lifetime. Returns true once it has run
+   * out; an element being dragged or merged waits until it is let go.
+   */
+  public tickDecay(deltaMS: number): boolean {
+    if (this.lifetime === null) return false;
+    this.lifetime = Math.max(0, this.lifetime - deltaMS);
+    this.updateDecayVisuals();
+    return this.lifetime === 0 && !this.isDragging && !this.merging;
+  }
+  
+  private updateDecayVisuals(): void {
+    const decay = this.definition.decay;
+    if (!decay || !this.decayRing || this.lifetime === null) return;
+    const remaining = this.lifetime / decay.lifetime;
+    
+    // Countdown ring clockwise from the top, red for the last quarter
+    this.decayRing.clear();
+    this.decayRing.lineStyle(3, remaining > 0.25 ? 0xf59e0b : 0xef4444, 0.9);
+    this.decayRing.arc(0, 0, 48, -Math.PI / 2, -Math.PI / 2 + remaining * Math.PI * 2);
     
-    animate();
+    // Fade out over the second half of the lifetime
+    if (!this.merging) {
+      this.alpha = Math.min(1, 0.3 + remaining * 1.4);
+    }
   }
   
   public playMergeAnimation(targetX: number, targetY: number): Promise<void> {
+    this.merging = true;
     return new Promise((resolve) => {
       // Quick zoom-in-zoom-out animation with movement towards target
       const originalX = this.x;
       const originalY = this.y;
       let progress = 0;
       const duration = 300; // 300ms animation
-      const startTime = Date.now();
+      let elapsed = 0;
       
-      const animate = () => {
-        const elapsed = Date.now() - startTime;
+      scheduler.onFrame(deltaMS => {
+        // Removed mid-merge (e.g. the canvas was cleared): settle so the merge can finish
+        if (this.destroyed) {
+          resolve();
+          return false;
+        }
+        elapsed += deltaMS;
         progress = Math.min(elapsed / duration, 1);
         
         if (progress < 0.5) {
@@ -365,19 +418,16 @@ export class Element extends PIXI.Container {
           this.y = originalY + (targetY - originalY) * totalMoveProgress;
         }
         
-        if (progress < 1) {
-          requestAnimationFrame(animate);
-        } else {
-          // Reset to original state (will be removed anyway)
-          this.scale.set(1);
-          this.alpha = 1;
-          this.x = originalX;
-          this.y = originalY;
-          resolve();
-        }
-      };
-      
-      animate();
+        if (progress < 1) return;
+        
+        // Reset to original state (will be removed anyway)
+        this.scale.set(1);
+        this.alpha = 1;
+        this.x = originalX;
+        this.y = originalY;
+        resolve();
+        return false;
+      });
     });
   }
   
@@ -1,10 +1,23 @@
 import { Element } from './Element';
-import { configLoader, Element as ElementType } from '@/config/ConfigLoader';
+import { configLoader, Element as ElementType, Recipe } from '@/config/ConfigLoader';
 import { i18n, t } from '@/i18n/Translation';
+import { JournalEntry, ProgressData } from './SaveFormat';
+import { SESSION_ID } from './DiscoveryJournal';
+
+const BASE_ELEMENT_IDS = ['0', '1', '2', '3']; // water, fire, earth, air
+
+// Inventory: base elements regenerate up to this many
+export const BASE_ELEMENT_CAP = 20;
+// Time for each base element to regenerate one unit
+export const BASE_REGEN_INTERVAL = 10000; // ms
 
 export class ElementManager {
   private discoveredElements: Set<string> = new Set();
   private elementCounts: Map<string, number> = new Map();
+  private journal: JournalEntry[] = [];
+  // Time towards the next base element regeneration
+  private regenElapsed: number = 0;
+  private mergeListeners: Array<(outputs: string[], newDiscoveries: string[]) => void> = [];
   
   constructor() {
     // Initialize with basic elements immediately (config is already loaded when Game creates ElementManager)
@@ -18,6 +31,12 @@ export class ElementManager {
     this.discoveredElements.add('1'); // fire
     this.discoveredElements.add('2'); // earth
     this.discoveredElements.add('3'); // air
+    // New games (and saves from before inventory) start with full stock
+    BASE_ELEMENT_IDS.forEach(id => {
+      if (!this.elementCounts.has(id)) {
+        this.elementCounts.set(id, BASE_ELEMENT_CAP);
+      }
+    });
     console.log('✅ Basic elements initialized:', Array.from(this.discoveredElements));
   }
   
@@ -25,6 +44,7 @@ export class ElementManager {
     // Reset discovered elements to only basic ones
     this.discoveredElements.clear();
     this.elementCounts.clear();
+    this.journal = [];
     this.initializeBasicElements();
   }
   
@@ -38,7 +58,7 @@ export class ElementManager {
     const wasAlreadyDiscovered = this.discoveredElements.has(elementId);
     this.discoveredElements.add(elementId);
     
-    // Update count
+    // Every merge adds one to the inventory
     const currentCount = this.elementCounts.get(elementId) || 0;
     this.elementCounts.set(elementId, currentCount + 1);
     
@@ -73,10 +93,59 @@ export class ElementManager {
     return result;
   }
   
+  public getDiscoveredIds(): string[] {
+    return Array.from(this.discoveredElements);
+  }
+  
   public getElementCount(elementId: string): number {
     return this.elementCounts.get(elementId) || 0;
   }
   
+  public getElementCounts(): Record<string, number> {
+    return Object.fromEntries(this.elementCounts);
+  }
+  
+  // Counts held by another tab; see Game's tab sync
+  public setElementCounts(counts: Record<string, number>): void {
+    this.elementCounts = new Map(Object.entries(counts));
+  }
+  
+  // Takes one from the inventory; false when there is none
+  public takeElement(elementId: string): boolean {
+    const count = this.getElementCount(elementId);
+    if (count <= 0) return false;
+    this.elementCounts.set(elementId, count - 1);
+    return true;
+  }
+  
+  // Applies count changes, e.g. reverting one for undo (direction -1)
+  public adjustCounts(changes: Record<string, number>, direction: 1 | -1 = 1): void {
+    Object.entries(changes).forEach(([id, change]) => {
+      this.elementCounts.set(id, Math.max(0, this.getElementCount(id) + change * direction));
+    });
+  }
+  
+  /**
+   * Regenerates base elements for elapsed time, up to BASE_ELEMENT_CAP.
+   * Returns true when any count changed.
+   */
+  public regenerateBaseElements(elapsedMS: number): boolean {
+    this.regenElapsed += elapsedMS;
+    const units = Math.floor(this.regenElapsed / BASE_REGEN_INTERVAL);
+    if (units === 0) return false;
+    this.regenElapsed -= units * BASE_REGEN_INTERVAL;
+    
+    let changed = false;
+    BASE_ELEMENT_IDS.forEach(id => {
+      const count = this.getElementCount(id);
+      if (count < BASE_ELEMENT_CAP) {
+        this.elementCounts.set(id, Math.min(BASE_ELEMENT_CAP, count + units));
+        changed = true;
+      }
+    });
+    return changed;
+  }
+  
   public createElement(elementId: string, x: number = 0, y: number = 0): Element | null {
     const element = configLoader.getElementById(elementId);
     if (!element || !this.isDiscovered(elementId)) {
@@ -92,7 +161,8 @@ export class ElementManager {
       color: this.getElementColor(element.id, element.category),
       category: element.category,
       discovered: this.isDiscovered(element.id),
-      rarity: element.rarity
+      rarity: element.rarity,
+      decay: element.decay
     };
     
     return new Element(definition, x, y);
@@ -122,16 +192,17 @@ export class ElementManager {
     return specificColors[hexId] || categoryColors[category] || 0x888888;
   }
   
-  public checkRecipe(element1: Element, element2: Element): {
+  public checkRecipe(...elements: Element[]): {
     success: boolean;
-    result?: string;
+    results?: string[];
+    catalyst?: string | null;
   } {
     // Don't merge the same element with itself
-    if (element1 === element2) {
+    if (new Set(elements).size !== elements.length) {
       return { success: false };
     }
     
-    const recipe = configLoader.getRecipeByInputs(element1.definition.id, element2.definition.id);
+    const recipe = configLoader.getRecipeByInputs(...elements.map(element => element.definition.id));
     
     if (!recipe) {
       return { success: false };
@@ -139,41 +210,114 @@ export class ElementManager {
     
     return {
       success: true,
-      result: recipe.output
+      results: recipe.outputs,
+      catalyst: recipe.catalyst
     };
   }
 
-  public attemptMerge(element1: Element, element2: Element): {
+  public attemptMerge(...elements: Element[]): {
     success: boolean;
-    result?: string;
-    isNewDiscovery?: boolean;
+    results?: string[];
+    newDiscoveries?: string[];
   } {
-    console.log(`[MERGE ATTEMPT] Trying to merge ${element1.definition.originalId}(${element1.definition.id}) + ${element2.definition.originalId}(${element2.definition.id})`);
+    const inputs = elements.map(element => element.definition.id);
+    console.log(`[MERGE ATTEMPT] Trying to merge ${elements.map(element => `${element.definition.originalId}(${element.definition.id})`).join(' + ')}`);
 
     // Don't merge the same element with itself
-    if (element1 === element2) {
+    if (new Set(elements).size !== elements.length) {
       console.log(`[MERGE FAILED] Reason: Cannot merge an element with itself.`);
       return { success: false };
     }
     
-    const recipe = configLoader.getRecipeByInputs(element1.definition.id, element2.definition.id);
+    const recipe = configLoader.getRecipeByInputs(...inputs);
     
     if (!recipe) {
       console.log(`[MERGE FAILED] Reason: No recipe found in ConfigLoader for these inputs.`);
       return { success: false };
     }
     
-    console.log(`[MERGE SUCCESS] Found recipe! Output: ${recipe.output}`);
-    const isNewDiscovery = this.discoverElement(recipe.output);
-    console.log(`[MERGE DISCOVERY] Is new discovery? ${isNewDiscovery}`);
+    console.log(`[MERGE SUCCESS] Found recipe! Outputs: ${recipe.outputs.join(', ')}`);
+    const newDiscoveries = this.recordMerge(recipe.outputs, inputs);
+    console.log(`[MERGE DISCOVERY] New discoveries: ${newDiscoveries.join(', ') || 'none'}`);
     
     return {
       success: true,
-      result: recipe.output,
-      isNewDiscovery
+      results: recipe.outputs,
+      newDiscoveries
     };
   }
   
+  /**
+   * Records a successful merge however it was made: the outputs are added to the
+   * inventory and, when new, discovered and journaled. Returns the new discoveries.
+   */
+  public recordMerge(outputs: string[], inputs: string[]): string[] {
+    const newDiscoveries = outputs.filter(output => this.discoverElement(output));
+    newDiscoveries.forEach(output => {
+      this.journal.push({
+        elementId: output,
+        inputs,
+        discoveredAt: new Date().toISOString(),
+        sessionId: SESSION_ID
+      });
+    });
+    this.mergeListeners.forEach(listener => listener(outputs, newDiscoveries));
+    return newDiscoveries;
+  }
+  
+  /**
+   * Discovers an element that appeared without a merge, like a decay
+   * byproduct, and journals it as made from `source`. Unlike a merge it adds
+   * nothing to the inventory. Returns true for a new discovery.
+   */
+  public discoverByproduct(elementId: string, source: string): boolean {
+    if (this.isDiscovered(elementId) || !configLoader.getElementById(elementId)) return false;
+    
+    this.discoveredElements.add(elementId);
+    this.journal.push({
+      elementId,
+      inputs: [source],
+      discoveredAt: new Date().toISOString(),
+      sessionId: SESSION_ID
+    });
+    return true;
+  }
+  
+  // Called after every recorded merge, from the canvas or the auto-alchemist
+  public onMerge(listener: (outputs: string[], newDiscoveries: string[]) => void): void {
+    this.mergeListeners.push(listener);
+  }
+  
+  /**
+   * Picks what to merge when `dragged` is dropped among `nearby` (nearest
+   * first): the recipe with the most inputs wins, then the closest cluster.
+   * Recipes with a catalyst only count when `isCatalystNear` finds it.
+   * Returns the elements to merge, dragged first, or null if nothing matches.
+   */
+  public findClusterMerge(
+    dragged: Element,
+    nearby: Element[],
+    isCatalystNear: (catalyst: string, inputs: Element[]) => boolean
+  ): Element[] | null {
+    const candidates = nearby.slice(0, configLoader.getMaxRecipeInputs() - 1);
+    const canMerge = (inputs: Element[]) => {
+      const check = this.checkRecipe(...inputs);
+      return check.success && (!check.catalyst || isCatalystNear(check.catalyst, inputs));
+    };
+    
+    for (let size = candidates.length; size >= 1; size--) {
+      const matches = combinations(candidates, size)
+        .filter(cluster => canMerge([dragged, ...cluster]));
+      if (matches.length === 0) continue;
+      
+      const distance = (cluster: Element[]) =>
+        cluster.reduce((total, element) => total + dragged.getDistanceTo(element), 0);
+      const closest = matches.reduce((best, cluster) => distance(cluster) < distance(best) ? cluster : best);
+      return [dragged, ...closest];
+    }
+    return null;
+  }
+  
   public getAvailableRecipes(): Array<{
     recipe: any;
     canMake: boolean;
@@ -181,10 +325,9 @@ export class ElementManager {
   }> {
     const gameConfig = configLoader.getGameConfig();
     return gameConfig.recipes.map(recipe => {
-      const hasIngredient1 = this.isDiscovered(recipe.inputs[0]);
-      const hasIngredient2 = this.isDiscovered(recipe.inputs[1]);
-      const hasIngredients = hasIngredient1 && hasIngredient2;
-      const canMake = hasIngredients && !this.isDiscovered(recipe.output);
+      const hasIngredients = recipe.inputs.every(input => this.isDiscovered(input))
+        && (!recipe.catalyst || this.isDiscovered(recipe.catalyst));
+      const canMake = hasIngredients && recipe.outputs.some(output => !this.isDiscovered(output));
       
       return {
         recipe,
@@ -211,54 +354,82 @@ export class ElementManager {
   }
   
   public getHint(): string | null {
+    return this.findHint() ?? t('ui.messages.keepExperimenting');
+  }
+  
+  // A recipe the player can make right now, or null when there is nothing to suggest
+  public findHint(): string | null {
     const availableRecipes = this.getAvailableRecipes();
     const possibleRecipes = availableRecipes.filter(r => r.canMake);
     
     if (possibleRecipes.length === 0) {
-      return t('ui.messages.keepExperimenting');
+      return null;
     }
     
     const randomRecipe = possibleRecipes[Math.floor(Math.random() * possibleRecipes.length)];
-    const [input1, input2] = randomRecipe.recipe.inputs;
-    const element1 = configLoader.getElementById(input1);
-    const element2 = configLoader.getElementById(input2);
+    const recipe: Recipe = randomRecipe.recipe;
+    const elements = recipe.inputs.map(id => configLoader.getElementById(id));
+    const catalyst = recipe.catalyst ? configLoader.getElementById(recipe.catalyst) : null;
     
-    if (!element1 || !element2) {
-      return t('ui.messages.keepExperimenting');
+    if (elements.some(element => !element) || catalyst === undefined) {
+      return null;
     }
     
-    const element1Name = i18n.getElementName(input1, element1.name);
-    const element2Name = i18n.getElementName(input2, element2.name);
-    
-    return t('ui.hints.tryCombing', { 
-      element1: `${element1.emoji} ${element1Name}`, 
-      element2: `${element2.emoji} ${element2Name}` 
-    });
+    const describe = (element: ElementType) => `${element.emoji} ${i18n.getElementName(element.id, element.name)}`;
+    const names = elements.map(element => describe(element!));
+    const hint = names.length > 2
+      ? t('hints.tryCombiningAll', { elements: names.join(', ') })
+      : t('hints.tryCombing', { 
+        element1: names[0], 
+        element2: names[1] 
+      });
+    return catalyst ? t('hints.withCatalyst', { hint, catalyst: describe(catalyst) }) : hint;
   }
   
-  public saveProgress(): string {
-    return JSON.stringify({
+  public saveProgress(): ProgressData {
+    return {
       discoveredElements: Array.from(this.discoveredElements),
-      elementCounts: Object.fromEntries(this.elementCounts)
-    });
+      elementCounts: Object.fromEntries(this.elementCounts),
+      journal: [...this.journal]
+    };
   }
   
-  public loadProgress(saveData: string): boolean {
-    try {
-      const data = JSON.parse(saveData);
-      
-      if (data.discoveredElements && Array.isArray(data.discoveredElements)) {
-        this.discoveredElements = new Set(data.discoveredElements);
-      }
-      
-      if (data.elementCounts && typeof data.elementCounts === 'object') {
-        this.elementCounts = new Map(Object.entries(data.elementCounts));
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to load progress:', error);
-      return false;
+  // Expects data already migrated and validated by parseSave()
+  public loadProgress(data: ProgressData): void {
+    this.discoveredElements = new Set(data.discoveredElements);
+    this.elementCounts = new Map(Object.entries(data.elementCounts));
+    this.journal = [...data.journal];
+    
+    // Base elements are always available, even if a save omitted them
+    this.initializeBasicElements();
+  }
+  
+  public getJournal(): JournalEntry[] {
+    return [...this.journal];
+  }
+  
+  /**
+   * Adds progress made elsewhere (another tab) and returns the newly discovered IDs.
+   * Inventory counts are not merged: spending makes them go down as well as up.
+   */
+  public mergeProgress(data: ProgressData): string[] {
+    const added = data.discoveredElements.filter(id => !this.discoveredElements.has(id));
+    added.forEach(id => this.discoveredElements.add(id));
+    
+    const journaled = new Set(this.journal.map(entry => entry.elementId));
+    const newEntries = data.journal.filter(entry => !journaled.has(entry.elementId));
+    if (newEntries.length > 0) {
+      this.journal = [...this.journal, ...newEntries]
+        .sort((a, b) => a.discoveredAt.localeCompare(b.discoveredAt));
     }
+    
+    return added;
   }
-} 
\ No newline at end of file
+}
+
+// Every way to choose `size` of the items, keeping their order
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, index) =>
+    combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest]));
+}
@@ -0,0 +1,80 @@
+import { Element as ElementType } from '@/config/ConfigLoader';
+
+export type Rarity = ElementType['rarity'];
+
+// Essence per second produced by one element on the canvas
+export const ESSENCE_RATES: Record<Rarity, number> = {
+  basic: 0.1,
+  common: 0.25,
+  uncommon: 0.75,
+  rare: 2,
+  legendary: 6
+};
+
+/**
+ * Production rate in essence per second for a set of on-canvas elements.
+ * Live ticking and any catch-up calculation must both go through this so
+ * they always agree.
+ */
+export function calculateProductionRate(rarities: Rarity[], multiplier: number = 1): number {
+  const base = rarities.reduce((total, rarity) => total + (ESSENCE_RATES[rarity] ?? 0), 0);
+  return base * multiplier;
+}
+
+export function calculateProduction(ratePerSecond: number, seconds: number): number {
+  return Math.max(0, ratePerSecond * seconds);
+}
+
+export function formatEssence(amount: number): string {
+  if (amount < 1000) {
+    return amount < 10 ? amount.toFixed(1) : Math.floor(amount).toString();
+  }
+  const units = ['K', 'M', 'B', 'T'];
+  let value = amount;
+  let unit = -1;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${value.toFixed(value < 100 ? 1 : 0)}${units[unit]}`;
+}
+
+/**
+ * The essence balance. Game sets the production rate from the canvas and
+ * advances it from the scheduler's production step.
+ */
+export class EssenceManager {
+  private essence: number = 0;
+  private rate: number = 0; // essence per second
+
+  public getEssence(): number {
+    return this.essence;
+  }
+
+  // Loaded or synced balance; not a gain
+  public setEssence(amount: number): void {
+    this.essence = Math.max(0, amount);
+  }
+
+  public add(amount: number): void {
+    this.essence += Math.max(0, amount);
+  }
+
+  public spend(amount: number): boolean {
+    if (amount > this.essence) return false;
+    this.essence -= amount;
+    return true;
+  }
+
+  public getRate(): number {
+    return this.rate;
+  }
+
+  public setRate(ratePerSecond: number): void {
+    this.rate = ratePerSecond;
+  }
+
+  public tick(deltaMS: number): void {
+    this.add(calculateProduction(this.rate, deltaMS / 1000));
+  }
+}
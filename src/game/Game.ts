@@ -1,12 +1,45 @@
 import * as PIXI from 'pixi.js';
 import { Element } from './Element';
 import { ElementManager } from './ElementManager';
-import { i18n } from '@/i18n/Translation';
+import { i18n, t } from '@/i18n/Translation';
 import { configLoader } from '@/config/ConfigLoader';
+import { storage } from '@/storage/StorageService';
+import { tabSync } from '@/storage/TabSync';
+import { parseSave, serializeSave, GameSave, JournalEntry, SaveFormatError, WorkspaceState, STARTING_HINTS } from './SaveFormat';
+import { createBackup, backupIfDue, getBackup } from './SaveBackups';
+import { CanvasHistory, CanvasAction } from './CanvasHistory';
+import { EssenceManager, calculateProductionRate } from './EssenceManager';
+import { calculateOfflineProgress, OfflineReport, OFFLINE_REPORT_THRESHOLD } from './OfflineProgress';
+import { PrestigeManager, PrestigeBonusId } from './PrestigeManager';
+import { UpgradeManager } from './UpgradeManager';
+import { AutoAlchemist, AutoAlchemistLogEntry, AutoAlchemistSettings } from './AutoAlchemist';
+import { AchievementManager } from './AchievementManager';
+import { QuestManager, Quest } from './QuestManager';
+import { scheduler, FRAME_MS } from './Scheduler';
+import { Upgrade, Achievement, AchievementTrigger } from '@/config/ConfigLoader';
+
+// Distance from the merge point that the results of a multi-output recipe spawn at
+const OUTPUT_SPREAD = 40; // px
+// How close to the merge point a recipe's catalyst has to be
+const CATALYST_RADIUS = 150; // px
+// How often work waiting for a drag or merge to finish checks again
+const CANVAS_IDLE_RETRY = 100; // ms
 
 export class Game {
   private app: PIXI.Application;
   private elementManager: ElementManager;
+  private autoAlchemist: AutoAlchemist;
+  private essenceManager: EssenceManager = new EssenceManager();
+  private prestigeManager: PrestigeManager = new PrestigeManager();
+  private upgradeManager: UpgradeManager = new UpgradeManager();
+  private achievementManager: AchievementManager = new AchievementManager();
+  private questManager: QuestManager = new QuestManager();
+  private hints: number = STARTING_HINTS;
+  private static readonly PRODUCTION_STEP = 100; // ms
+  private static readonly ESSENCE_UI_INTERVAL = 250; // ms
+  private static readonly ESSENCE_SAVE_INTERVAL = 10000; // ms
+  // Production credited on load for time the game was closed, until the UI shows it
+  private offlineReport: OfflineReport | null = null;
   private gameContainer: PIXI.Container;
   private elements: Element[] = [];
   private draggedElement: Element | null = null;
@@ -22,6 +55,22 @@ export class Game {
   private minZoom: number = 0.5;
   private maxZoom: number = 2.0;
   
+  // Set when a saved canvas layout/camera was restored on load
+  private workspaceRestored: boolean = false;
+  
+  // Set when the stored save could not be loaded; saving stays disabled so it is not overwritten
+  private loadError: SaveFormatError | null = null;
+  
+  // Set when another tab saved a canvas layout newer than the one shown here
+  private canvasStale: boolean = false;
+  
+  // Undo/redo for canvas operations
+  private history: CanvasHistory = new CanvasHistory();
+  // Canvas as it was when the current drag started; recorded as a move or merge when it ends
+  private dragStartState: WorkspaceState | null = null;
+  // Merge animations still running; undo/redo waits for them
+  private pendingMerges: number = 0;
+  
   constructor(container: HTMLElement) {
     this.app = new PIXI.Application({
       width: container.clientWidth,
@@ -33,8 +82,15 @@ export class Game {
     });
     
     container.appendChild(this.app.view as HTMLCanvasElement);
+    scheduler.attach(this.app.ticker);
     
     this.elementManager = new ElementManager();
+    this.elementManager.onMerge((outputs, newDiscoveries) => {
+      if (this.questManager.recordMerge(outputs, newDiscoveries)) {
+        this.onQuestsChanged();
+      }
+    });
+    this.autoAlchemist = new AutoAlchemist(this.elementManager);
     this.gameContainer = new PIXI.Container();
     this.app.stage.addChild(this.gameContainer);
     
@@ -43,6 +99,8 @@ export class Game {
     
     this.initialize();
     this.setupEventListeners();
+    this.setupTabSync();
+    this.setupProduction();
   }
   
   private setupDarkModeHandling(): void {
@@ -87,10 +145,10 @@ export class Game {
     // Handle window resize
     window.addEventListener('resize', this.onResize.bind(this));
     
-    // Save progress periodically
-    setInterval(() => {
+    // Save on unload so element positions from the last drag are not lost
+    window.addEventListener('beforeunload', () => {
       this.saveGameProgress();
-    }, 10000); // Save every 10 seconds
+    });
     
     // Add drop support for dragging from element panel
     const canvas = this.app.view as HTMLCanvasElement;
@@ -101,6 +159,11 @@ export class Game {
     canvas.addEventListener('drop', (e) => {
       e.preventDefault();
       const elementId = e.dataTransfer?.getData('text/plain');
+      // The stock can run out while dragging (e.g. spent in another tab); tell the player why nothing happens
+      if (elementId && this.elementManager.getElementCount(elementId) <= 0) {
+        window.dispatchEvent(new CustomEvent('elementOutOfStock', { detail: { elementId } }));
+        return;
+      }
       if (elementId) {
         const rect = canvas.getBoundingClientRect();
         const canvasX = e.clientX - rect.left;
@@ -114,30 +177,41 @@ export class Game {
         const targetElement = this.findElementAtPosition(canvasX, canvasY);
         
         if (targetElement) {
-          // Attempt merge
+          // Attempt merge; the dropped element comes from the inventory
           const tempElement = this.elementManager.createElement(elementId, worldX, worldY);
-          if (tempElement) {
-            const mergeResult = this.elementManager.attemptMerge(tempElement, targetElement);
-            console.log('Drop merge attempt:', elementId, '+', targetElement.definition.id, '=', mergeResult);
-            
-            if (mergeResult.success && mergeResult.result) {
-              // Successful merge - remove target and create result
-                          this.performMerge(tempElement, targetElement, mergeResult.result, mergeResult.isNewDiscovery || false).then(() => {
-              if (mergeResult.isNewDiscovery && mergeResult.result) {
-                // Get element details for proper name display
-                const resultElement = configLoader.getElementById(mergeResult.result!);
-                const discoveryMessage = i18n.getDiscoveryMessage(mergeResult.result!, resultElement?.name);
-                this.showDiscoveryMessage(discoveryMessage);
-              }
-              });
-            } else {
-              // Failed merge - place element nearby
-              this.addElement(elementId, worldX + 50, worldY + 50);
-            }
+          // Only unknown or undiscovered IDs fail to create
+          if (!tempElement) return;
+          
+          const before = this.getWorkspaceState();
+          // The element under the drop comes first, then the rest of the cluster around it
+          const nearby = this.elements
+            .filter(el => el !== targetElement && tempElement.getDistanceTo(el) < this.getMergeDistance())
+            .sort((a, b) => tempElement.getDistanceTo(a) - tempElement.getDistanceTo(b));
+          const cluster = this.elementManager.findClusterMerge(
+            tempElement,
+            [targetElement, ...nearby],
+            (catalyst, inputs) => this.isCatalystNear(catalyst, inputs)
+          );
+          const mergeResult = cluster ? this.elementManager.attemptMerge(...cluster) : { success: false };
+          console.log('Drop merge attempt:', elementId, '+', targetElement.definition.id, '=', mergeResult);
+          
+          if (cluster && mergeResult.success && mergeResult.results) {
+            this.elementManager.takeElement(elementId);
+            const results = mergeResult.results;
+            const newDiscoveries = mergeResult.newDiscoveries ?? [];
+            const changes = Game.countChanges([elementId], results);
+            // Successful merge - remove the inputs and create the results
+            this.performMerge(cluster, results, newDiscoveries).then(() => {
+              this.recordCommand('merge', before, undefined, changes);
+              this.announceDiscoveries(newDiscoveries);
+            });
+          } else {
+            // Failed merge - place element nearby
+            this.addElementFromInventory(elementId, worldX + 50, worldY + 50);
           }
         } else {
           // Drop on empty space
-          this.addElement(elementId, worldX, worldY);
+          this.addElementFromInventory(elementId, worldX, worldY);
         }
       }
     });
@@ -186,6 +260,7 @@ export class Game {
       if (this.isPanning) {
         this.isPanning = false;
         canvas.style.cursor = 'grab';
+        this.saveGameProgress();
       }
     });
     
@@ -193,6 +268,7 @@ export class Game {
       if (this.isPanning) {
         this.isPanning = false;
         canvas.style.cursor = 'grab';
+        this.saveGameProgress();
       }
     });
     
@@ -234,6 +310,7 @@ export class Game {
     canvas.addEventListener('touchend', () => {
       if (this.isPanning) {
         this.isPanning = false;
+        this.saveGameProgress();
       }
     }, { passive: true });
 
@@ -289,14 +366,19 @@ export class Game {
   
   private onElementDragStart(element: Element): void {
     this.draggedElement = element;
+    this.dragStartState = this.getWorkspaceState();
     
     // Highlight potential merge targets (CHECK ONLY, don't discover)
     if (this.draggedElement) {
       this.elements.forEach(el => {
         if (el !== this.draggedElement) {
           const recipeCheck = this.elementManager.checkRecipe(this.draggedElement!, el);
-          if (recipeCheck.success) {
+          if (!recipeCheck.success) return;
+          // Dropped on el, the merge point ends up next to it
+          if (!recipeCheck.catalyst || this.isCatalystNear(recipeCheck.catalyst, [this.draggedElement!, el], el)) {
             el.highlight(0x00ff00); // Green for valid merge
+          } else {
+            el.highlight(0xffaa00); // Amber: the recipe needs its catalyst nearby
           }
         }
       });
@@ -310,28 +392,32 @@ export class Game {
   private onElementDragEnd(): void {
     if (!this.draggedElement) return;
     
-    // Check for merges with nearby elements
-    const nearbyElements = this.elements.filter(el => {
-      if (el === this.draggedElement) return false;
-      const distance = this.draggedElement!.getDistanceTo(el);
-      return distance < this.mergeDistance;
-    });
+    // Check for merges with nearby elements, nearest first; a cluster can make a multi-input recipe
+    const dragged = this.draggedElement;
+    const nearbyElements = this.elements
+      .filter(el => el !== dragged && dragged.getDistanceTo(el) < this.getMergeDistance())
+      .sort((a, b) => dragged.getDistanceTo(a) - dragged.getDistanceTo(b));
     
+    const before = this.dragStartState;
     let merged = false;
-    for (const target of nearbyElements) {
-      const mergeResult = this.elementManager.attemptMerge(this.draggedElement, target);
+    const cluster = this.elementManager.findClusterMerge(
+      dragged,
+      nearbyElements,
+      (catalyst, inputs) => this.isCatalystNear(catalyst, inputs)
+    );
+    if (cluster) {
+      const mergeResult = this.elementManager.attemptMerge(...cluster);
       
-      if (mergeResult.success && mergeResult.result) {
-                    this.performMerge(this.draggedElement, target, mergeResult.result, mergeResult.isNewDiscovery || false).then(() => {
-              if (mergeResult.isNewDiscovery && mergeResult.result) {
-                // Get element details for proper name display
-                const resultElement = configLoader.getElementById(mergeResult.result!);
-                const discoveryMessage = i18n.getDiscoveryMessage(mergeResult.result!, resultElement?.name);
-                this.showDiscoveryMessage(discoveryMessage);
-              }
+      if (mergeResult.success && mergeResult.results) {
+        const results = mergeResult.results;
+        const newDiscoveries = mergeResult.newDiscoveries ?? [];
+        this.performMerge(cluster, results, newDiscoveries).then(() => {
+          if (before) {
+            this.recordCommand('merge', before, undefined, Game.countChanges([], results));
+          }
+          this.announceDiscoveries(newDiscoveries);
         });
         merged = true;
-        break;
       }
     }
     
@@ -340,9 +426,14 @@ export class Game {
     
     if (!merged) {
       // Element stays where it was dragged - no position constraints for unlimited canvas
+      if (before) {
+        this.recordCommand('move', before);
+      }
+      this.saveGameProgress();
     }
     
     this.draggedElement = null;
+    this.dragStartState = null;
   }
   
   private onElementDoubleTap(element: Element): void {
@@ -353,39 +444,101 @@ export class Game {
     const newX = element.x + offsetX;
     const newY = element.y + offsetY;
     
-    const copy = this.createElementAtPosition(element.definition.id, newX, newY);
+    // A copy comes out of the inventory like one from the panel
+    const elementId = element.definition.id;
+    if (!this.elementManager.takeElement(elementId)) return;
+    
+    const before = this.getWorkspaceState();
+    const copy = this.createElementAtPosition(elementId, newX, newY);
     if (copy) {
+      this.recordCommand('add', before, undefined, Game.countChanges([elementId], []));
       copy.playDiscoveryAnimation();
+    } else {
+      this.elementManager.adjustCounts(Game.countChanges([], [elementId]));
     }
+    this.onInventoryChanged();
   }
   
-  private async performMerge(element1: Element, element2: Element, resultId: string, isNewDiscovery: boolean): Promise<void> {
-    // Calculate merge position (midpoint)
-    const mergeX = (element1.x + element2.x) / 2;
-    const mergeY = (element1.y + element2.y) / 2;
-    
-    // Play merge animation on both elements simultaneously - each moves toward the merge point
-    const animation1 = element1.playMergeAnimation(mergeX, mergeY);
-    const animation2 = element2.playMergeAnimation(mergeX, mergeY);
-    
-    // Wait for both animations to complete
-    await Promise.all([animation1, animation2]);
-    
-    // Remove the two input elements
-    this.removeElement(element1);
-    this.removeElement(element2);
+  // Center of a group of elements, where they merge
+  private static centerOf(elements: Element[]): { x: number; y: number } {
+    return {
+      x: elements.reduce((total, element) => total + element.x, 0) / elements.length,
+      y: elements.reduce((total, element) => total + element.y, 0) / elements.length
+    };
+  }
+  
+  /**
+   * Whether a catalyst element other than the inputs sits within
+   * CATALYST_RADIUS of where the inputs merge (or of `at`).
+   */
+  private isCatalystNear(catalyst: string, inputs: Element[], at: { x: number; y: number } = Game.centerOf(inputs)): boolean {
+    return this.elements.some(el =>
+      el.definition.id === catalyst &&
+      !inputs.includes(el) &&
+      Math.hypot(el.x - at.x, el.y - at.y) <= CATALYST_RADIUS
+    );
+  }
+  
+  private async performMerge(inputs: Element[], results: string[], newDiscoveries: string[]): Promise<void> {
+    // Calculate merge position (center of the inputs)
+    const { x: mergeX, y: mergeY } = Game.centerOf(inputs);
+    
+    // Play merge animation on all inputs simultaneously - each moves toward the merge point
+    const animations = inputs.map(element => element.playMergeAnimation(mergeX, mergeY));
+    
+    // Wait for all animations to complete
+    this.pendingMerges++;
+    try {
+      await Promise.all(animations);
+    } finally {
+      this.pendingMerges--;
+    }
     
-    // Create the result element
-    const resultElement = this.createElementAtPosition(resultId, mergeX, mergeY);
+    // Remove the input elements
+    inputs.forEach(element => this.removeElement(element));
+    
+    // Create the results; several are spread evenly around the merge point
+    results.forEach((resultId, index) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * index) / results.length;
+      const spread = results.length > 1 ? OUTPUT_SPREAD : 0;
+      const resultElement = this.createElementAtPosition(
+        resultId,
+        mergeX + Math.cos(angle) * spread,
+        mergeY + Math.sin(angle) * spread
+      );
+      
+      if (resultElement && newDiscoveries.includes(resultId)) {
+        resultElement.playDiscoveryAnimation();
+      }
+    });
     
-    if (resultElement && isNewDiscovery) {
-      resultElement.playDiscoveryAnimation();
+    this.recordAchievements('merge');
+    if (newDiscoveries.length > 0) {
+      this.recordAchievements('discovery');
     }
     
     // Update UI
     this.onGameStateChanged();
   }
   
+  // Several discoveries at once are announced by the first rather than stacking messages
+  private announceDiscoveries(ids: string[]): void {
+    if (ids.length === 0) return;
+    const element = configLoader.getElementById(ids[0]);
+    this.showDiscoveryMessage(i18n.getDiscoveryMessage(ids[0], element?.name));
+  }
+  
+  // Counts an achievement trigger and announces what it unlocked; the caller saves
+  private recordAchievements(trigger: AchievementTrigger | null): void {
+    const unlocked = this.achievementManager.record(trigger, {
+      discoveredIds: this.elementManager.getDiscoveredIds(),
+      journal: this.elementManager.getJournal()
+    });
+    unlocked.forEach(achievement => {
+      window.dispatchEvent(new CustomEvent('achievementUnlocked', { detail: { id: achievement.id } }));
+    });
+  }
+  
   private removeElement(element: Element): void {
     const index = this.elements.indexOf(element);
     if (index > -1) {
@@ -439,39 +592,35 @@ export class Game {
     this.gameContainer.addChild(text);
     this.app.stage.sortChildren(); // Ensure z-index is respected
     
-    // Animate the message
+    // Animate the message: fade in while rising, hold, then fade out
     let alpha = 0;
     let startY = this.app.screen.height / 2;
     let currentY = startY;
+    let heldMS = 0;
     
-    const animate = () => {
-      alpha += 0.08;
-      currentY -= 0.5;
+    scheduler.onFrame(deltaMS => {
+      const frames = deltaMS / FRAME_MS;
+      if (alpha < 1.5) {
+        alpha += 0.08 * frames;
+        currentY -= 0.5 * frames;
+        text.alpha = Math.min(alpha, 1);
+        text.y = currentY;
+        return;
+      }
+      if (heldMS < 1500) {
+        heldMS += deltaMS;
+        return;
+      }
       
-      text.alpha = Math.min(alpha, 1);
+      text.alpha -= 0.03 * frames;
+      currentY -= 0.5 * frames;
       text.y = currentY;
+      if (text.alpha > 0) return;
       
-      if (alpha < 1.5) {
-        requestAnimationFrame(animate);
-      } else {
-        // Fade out
-        const fadeOut = () => {
-          text.alpha -= 0.03;
-          currentY -= 0.5;
-          text.y = currentY;
-          
-          if (text.alpha > 0) {
-            requestAnimationFrame(fadeOut);
-          } else {
-            this.gameContainer.removeChild(text);
-            text.destroy();
-          }
-        };
-        setTimeout(fadeOut, 1500);
-      }
-    };
-    
-    animate();
+      this.gameContainer.removeChild(text);
+      text.destroy();
+      return false;
+    });
   }
   
   private onGameStateChanged(): void {
@@ -497,18 +646,454 @@ export class Game {
   }
   
   private saveGameProgress(): void {
-    const saveData = this.elementManager.saveProgress();
-    localStorage.setItem('idle-alchemy-save', saveData);
+    if (this.loadError) {
+      return;
+    }
+    
+    let workspace = this.getWorkspaceState();
+    if (!tabSync.isCanvasOwner()) {
+      // Another tab owns canvas saves: keep its layout rather than this tab's possibly stale one
+      const stored = this.readStoredSave();
+      if (stored?.workspace) {
+        workspace = stored.workspace;
+      }
+    }
+    
+    // Cheap: the storage service batches the actual write
+    const saveData = serializeSave({
+      progress: this.elementManager.saveProgress(),
+      workspace,
+      essence: this.essenceManager.getEssence(),
+      lastSeen: new Date().toISOString(),
+      prestige: this.prestigeManager.getState(),
+      upgrades: this.upgradeManager.getLevels(),
+      hints: this.hints,
+      achievements: this.achievementManager.getState(),
+      quests: this.questManager.getState()
+    });
+    storage.set('save', saveData);
+    backupIfDue(saveData);
+  }
+  
+  private setupProduction(): void {
+    scheduler.addFixedStep('production', Game.PRODUCTION_STEP, stepMS => {
+      // Other tabs show the canvas owner's balance instead of producing a second time
+      if (tabSync.isCanvasOwner() && !this.loadError) {
+        this.essenceManager.setRate(calculateProductionRate(this.getCanvasRarities(), this.getProductionMultiplier()));
+        this.essenceManager.tick(stepMS);
+        if (this.elementManager.regenerateBaseElements(stepMS)) {
+          this.onInventoryChanged();
+        }
+        this.runAutoAlchemist(stepMS);
+      } else {
+        this.essenceManager.setRate(0);
+      }
+    });
+    
+    // Time the page was hidden or stalled counts like time away
+    scheduler.onResume(pausedMS => {
+      if (!tabSync.isCanvasOwner() || this.loadError) return;
+      const now = Date.now();
+      const report = this.creditOfflineProgress(now - pausedMS, now);
+      if (report) {
+        window.dispatchEvent(new CustomEvent('offlineProgress', { detail: report }));
+      }
+      this.onEssenceChanged();
+    });
+    
+    // Unstable elements run down in every tab; each shows its own canvas
+    scheduler.onFrame(deltaMS => {
+      this.updateDecay(deltaMS);
+    });
+    
+    scheduler.setTimer('essenceUI', Game.ESSENCE_UI_INTERVAL, () => {
+      this.onEssenceChanged();
+      // A new day brings new quests
+      if (this.questManager.prune()) {
+        this.onQuestsChanged();
+      }
+    }, true);
+    
+    scheduler.setTimer('essenceSave', Game.ESSENCE_SAVE_INTERVAL, () => {
+      if (this.essenceManager.getRate() > 0) {
+        this.saveGameProgress();
+      }
+    }, true);
+  }
+  
+  // Replaces elements whose lifetime ran out with their byproducts
+  private updateDecay(deltaMS: number): void {
+    const decayed = this.elements.filter(element => element.tickDecay(deltaMS));
+    if (decayed.length === 0) return;
+    
+    const newDiscoveries: string[] = [];
+    decayed.forEach(element => {
+      const { x, y } = element;
+      const byproduct = element.definition.decay!.byproduct;
+      const source = element.definition.id;
+      console.log(`⏳ ${element.definition.originalId} decayed into ${configLoader.getElementById(byproduct)?.originalId}`);
+      this.removeElement(element);
+      // Only discovered elements can be placed, so a new byproduct is discovered first
+      const isNewDiscovery = this.elementManager.discoverByproduct(byproduct, source);
+      const result = this.createElementAtPosition(byproduct, x, y);
+      if (isNewDiscovery) {
+        newDiscoveries.push(byproduct);
+        result?.playDiscoveryAnimation();
+      }
+    });
+    
+    // Decay cannot be undone: states with the decayed elements would bring them back with stale lifetimes
+    this.history.forgetElements(new Set(decayed.map(element => element.definition.id)));
+    this.onHistoryChanged();
+    if (newDiscoveries.length > 0) {
+      this.recordAchievements('discovery');
+      this.announceDiscoveries(newDiscoveries);
+      this.onGameStateChanged();
+    }
+    this.saveGameProgress();
+  }
+  
+  private runAutoAlchemist(elapsedMS: number): void {
+    const entries = this.autoAlchemist.tick(elapsedMS, this.getAutoMergerSlots());
+    if (entries.length === 0) return;
+    
+    window.dispatchEvent(new CustomEvent('autoAlchemistActivity', { detail: { entries } }));
+    if (!entries.some(entry => entry.outputs.length > 0)) return;
+    
+    // Successful experiments spent inputs and made outputs, like player merges
+    entries.filter(entry => entry.outputs.length > 0).forEach(entry => {
+      this.recordAchievements('merge');
+      if (entry.newDiscoveries.length > 0) {
+        this.recordAchievements('discovery');
+      }
+    });
+    this.onGameStateChanged();
+    // Catching up can discover several at once; announce the latest rather than stacking them
+    const discovery = entries.filter(entry => entry.newDiscoveries.length > 0).pop();
+    if (discovery) {
+      this.announceDiscoveries(discovery.newDiscoveries);
+    }
+  }
+  
+  private getProductionMultiplier(): number {
+    return this.prestigeManager.getMultiplier('production') * (1 + this.upgradeManager.getEffect('production'));
+  }
+  
+  private getCanvasRarities() {
+    return this.elements.map(el => el.definition.rarity);
+  }
+  
+  /**
+   * Adds what the current canvas would have produced since `since`. Returns the
+   * report when the absence is long enough to be worth telling the player about.
+   */
+  private creditOfflineProgress(since: number, now: number = Date.now()): OfflineReport | null {
+    const multiplier = this.getProductionMultiplier() * this.prestigeManager.getMultiplier('offline');
+    const report = calculateOfflineProgress(this.getCanvasRarities(), since, now, multiplier);
+    this.essenceManager.add(report.essence);
+    if (this.elementManager.regenerateBaseElements(report.creditedMs)) {
+      this.onInventoryChanged();
+    }
+    this.runAutoAlchemist(report.creditedMs);
+    
+    if (report.awayMs < OFFLINE_REPORT_THRESHOLD || report.essence <= 0) {
+      return null;
+    }
+    console.log(`⏰ Credited ${report.essence.toFixed(1)} essence for ${Math.round(report.creditedMs / 1000)}s away`);
+    return report;
+  }
+  
+  // Returns the report for time away before this page loaded, once
+  public takeOfflineReport(): OfflineReport | null {
+    const report = this.offlineReport;
+    this.offlineReport = null;
+    return report;
+  }
+  
+  private onEssenceChanged(): void {
+    window.dispatchEvent(new CustomEvent('essenceChanged', {
+      detail: {
+        essence: this.essenceManager.getEssence(),
+        rate: this.essenceManager.getRate()
+      }
+    }));
+  }
+  
+  private readStoredSave(): GameSave | null {
+    const saveData = storage.get('save');
+    if (!saveData) return null;
+    try {
+      return parseSave(saveData);
+    } catch {
+      return null;
+    }
+  }
+  
+  private setupTabSync(): void {
+    // Another tab saved: pick up what it discovered
+    window.addEventListener('storageSynced', ((event: CustomEvent) => {
+      if (event.detail.global || event.detail.key !== 'save' || this.loadError) return;
+      
+      const stored = this.readStoredSave();
+      if (!stored) return;
+      
+      if (!tabSync.isCanvasOwner()) {
+        this.canvasStale = true;
+        // Only the canvas owner produces essence; the others show its balance
+        this.essenceManager.setEssence(stored.essence);
+        this.upgradeManager.loadLevels(stored.upgrades);
+        this.hints = stored.hints;
+        // Spending happens in the canvas owner as well, so its counts are the current ones
+        this.elementManager.setElementCounts(stored.progress.elementCounts);
+        this.onInventoryChanged();
+      }
+      // Bonuses may have been bought in any tab; every save carries the latest
+      this.prestigeManager.loadState(stored.prestige);
+      this.achievementManager.mergeState(stored.achievements);
+      this.questManager.mergeState(stored.quests);
+      const added = this.elementManager.mergeProgress(stored.progress);
+      if (added.length > 0) {
+        console.log(`🔗 Merged ${added.length} discoveries from another tab`);
+        this.onGameStateChanged();
+      }
+    }) as EventListener);
+    
+    // Taking over canvas saves: show the latest layout first so it is not overwritten
+    window.addEventListener('canvasOwnershipChanged', ((event: CustomEvent) => {
+      if (!event.detail.owner || !this.canvasStale) return;
+      this.canvasStale = false;
+      
+      const stored = this.readStoredSave();
+      if (stored?.workspace && !this.isCanvasBusy() && !this.isPanning) {
+        this.clearCanvasElements();
+        this.restoreWorkspace(stored.workspace);
+        // This tab's history describes a layout that is no longer shown
+        this.clearHistory();
+        this.onGameStateChanged();
+      }
+    }) as EventListener);
+    
+    // A reset or import elsewhere replaces progress instead of adding to it
+    tabSync.onMessage(message => {
+      if (message.type === 'progressReplaced' && message.profileId === storage.getActiveProfileId()) {
+        // Clearing the canvas mid-merge would destroy the merging elements
+        this.whenCanvasIdle('reloadFromStorage', () => this.reloadFromStorage());
+      }
+    });
+  }
+  
+  private reloadFromStorage(): void {
+    const stored = this.readStoredSave();
+    
+    this.clearCanvasElements();
+    this.elementManager.resetToBasicElements();
+    this.essenceManager.setEssence(stored ? stored.essence : 0);
+    this.upgradeManager.loadLevels(stored ? stored.upgrades : {});
+    this.hints = stored ? stored.hints : STARTING_HINTS;
+    this.resetCamera();
+    if (stored) {
+      this.prestigeManager.loadState(stored.prestige);
+      this.achievementManager.loadState(stored.achievements);
+      this.questManager.loadState(stored.quests);
+      this.elementManager.loadProgress(stored.progress);
+      if (stored.workspace) {
+        this.restoreWorkspace(stored.workspace);
+      }
+    }
+    
+    this.loadError = null;
+    this.canvasStale = false;
+    this.clearHistory();
+    this.onGameStateChanged();
+  }
+  
+  private announceProgressReplaced(): void {
+    tabSync.post({ type: 'progressReplaced', tabId: tabSync.tabId, profileId: storage.getActiveProfileId() });
+  }
+  
+  private clearCanvasElements(): void {
+    while (this.elements.length > 0) {
+      this.removeElement(this.elements[0]);
+    }
   }
   
   private loadGameProgress(): void {
-    const saveData = localStorage.getItem('idle-alchemy-save');
+    const saveData = storage.get('save');
     if (saveData) {
-      this.elementManager.loadProgress(saveData);
+      try {
+        const save = parseSave(saveData);
+        this.elementManager.loadProgress(save.progress);
+        this.essenceManager.setEssence(save.essence);
+        this.prestigeManager.loadState(save.prestige);
+        this.upgradeManager.loadLevels(save.upgrades);
+        this.hints = save.hints;
+        this.achievementManager.loadState(save.achievements);
+        this.questManager.loadState(save.quests);
+        if (save.workspace) {
+          this.restoreWorkspace(save.workspace);
+        }
+        backupIfDue(saveData);
+        if (save.lastSeen) {
+          this.offlineReport = this.creditOfflineProgress(Date.parse(save.lastSeen));
+        }
+        // Progress from before achievements existed still counts
+        this.recordAchievements(null);
+      } catch (error) {
+        if (!(error instanceof SaveFormatError)) {
+          throw error;
+        }
+        console.error('❌ Failed to load saved progress:', error.message);
+        this.loadError = error;
+      }
       this.onGameStateChanged();
     }
   }
   
+  private getWorkspaceState(): WorkspaceState {
+    // Child index in the container is the effective z-order (dragging brings elements to front)
+    const elements = this.elements.map(element => {
+      const lifetime = element.getLifetime();
+      return {
+        id: element.definition.id,
+        x: element.x,
+        y: element.y,
+        z: this.gameContainer.getChildIndex(element),
+        ...(lifetime !== null ? { lifetime } : {})
+      };
+    });
+    
+    return {
+      elements,
+      panOffset: { ...this.panOffset },
+      zoomLevel: this.zoomLevel
+    };
+  }
+  
+  private restoreWorkspace(workspace: WorkspaceState): void {
+    this.restoreCanvasElements(workspace);
+    this.restoreCamera(workspace);
+    
+    this.workspaceRestored = true;
+    console.log(`🗺️ Restored workspace: ${this.elements.length} elements, zoom ${Math.round(this.zoomLevel * 100)}%`);
+  }
+  
+  private restoreCanvasElements(workspace: WorkspaceState): void {
+    // Recreate elements bottom-to-top so the stacking order matches the save
+    const sortedElements = [...workspace.elements].sort((a, b) => a.z - b.z);
+    sortedElements.forEach(saved => {
+      // Goes through createElementAtPosition so drag/merge/double-tap handlers are attached
+      const element = this.createElementAtPosition(saved.id, saved.x, saved.y);
+      if (!element) {
+        console.warn(`Skipping saved canvas element ${saved.id}: not discovered or unknown`);
+      } else if (saved.lifetime !== undefined) {
+        element.setLifetime(saved.lifetime);
+      }
+    });
+  }
+  
+  private restoreCamera(workspace: WorkspaceState): void {
+    this.zoomLevel = Math.max(this.minZoom, Math.min(this.maxZoom, workspace.zoomLevel));
+    this.gameContainer.scale.set(this.zoomLevel);
+    this.panOffset = { x: workspace.panOffset.x, y: workspace.panOffset.y };
+    this.gameContainer.x = this.panOffset.x;
+    this.gameContainer.y = this.panOffset.y;
+  }
+  
+  private recordCommand(
+    action: CanvasAction,
+    before: WorkspaceState,
+    after: WorkspaceState = this.getWorkspaceState(),
+    inventory?: Record<string, number>
+  ): void {
+    // A tap or a drag that ended where it started changes nothing worth undoing
+    // (decay lifetimes keep counting down, so they are not compared)
+    const layout = (state: WorkspaceState) => JSON.stringify(state.elements.map(({ id, x, y, z }) => ({ id, x, y, z })));
+    if (layout(before) === layout(after) &&
+        !this.cameraDiffers(before, after)) {
+      return;
+    }
+    this.history.record({ action, before, after, inventory });
+    this.onHistoryChanged();
+  }
+  
+  private clearHistory(): void {
+    this.history.clear();
+    this.onHistoryChanged();
+  }
+  
+  private onHistoryChanged(): void {
+    window.dispatchEvent(new CustomEvent('canvasHistoryChanged', {
+      detail: {
+        canUndo: this.history.canUndo(),
+        canRedo: this.history.canRedo()
+      }
+    }));
+  }
+  
+  private cameraDiffers(a: WorkspaceState, b: WorkspaceState): boolean {
+    return a.zoomLevel !== b.zoomLevel || a.panOffset.x !== b.panOffset.x || a.panOffset.y !== b.panOffset.y;
+  }
+  
+  // Shows one side of a command. The camera only moves if the command itself moved it,
+  // so undoing a drag does not throw away panning done since.
+  private applyCanvasState(target: WorkspaceState, other: WorkspaceState): void {
+    this.clearCanvasElements();
+    this.restoreCanvasElements(target);
+    if (this.cameraDiffers(target, other)) {
+      this.restoreCamera(target);
+    }
+    this.onGameStateChanged();
+    this.onHistoryChanged();
+  }
+  
+  private isCanvasBusy(): boolean {
+    return this.draggedElement !== null || this.pendingMerges > 0;
+  }
+  
+  // Runs the callback once nothing is dragged or merging; a newer call with the same name replaces a waiting one
+  private whenCanvasIdle(name: string, callback: () => void): void {
+    if (!this.isCanvasBusy()) {
+      scheduler.clearTimer(name);
+      callback();
+      return;
+    }
+    scheduler.setTimer(name, CANVAS_IDLE_RETRY, () => this.whenCanvasIdle(name, callback));
+  }
+  
+  public undo(): boolean {
+    if (this.isCanvasBusy()) return false;
+    const command = this.history.undo();
+    if (!command) return false;
+    
+    console.log(`↩️ Undo ${command.action}`);
+    if (command.inventory) {
+      this.elementManager.adjustCounts(command.inventory, -1);
+    }
+    this.applyCanvasState(command.before, command.after);
+    return true;
+  }
+  
+  public redo(): boolean {
+    if (this.isCanvasBusy()) return false;
+    const command = this.history.redo();
+    if (!command) return false;
+    
+    console.log(`↪️ Redo ${command.action}`);
+    if (command.inventory) {
+      this.elementManager.adjustCounts(command.inventory);
+    }
+    this.applyCanvasState(command.after, command.before);
+    return true;
+  }
+  
+  public canUndo(): boolean {
+    return this.history.canUndo();
+  }
+  
+  public canRedo(): boolean {
+    return this.history.canRedo();
+  }
+  
   // Public API methods
   public addElement(elementId: string, x?: number, y?: number): boolean {
     if (!this.elementManager.isDiscovered(elementId)) {
@@ -519,7 +1104,11 @@ export class Game {
     const posX = x !== undefined ? x : -this.panOffset.x + (Math.random() * 400 - 200);
     const posY = y !== undefined ? y : -this.panOffset.y + (Math.random() * 400 - 200);
     
+    const before = this.getWorkspaceState();
     const element = this.createElementAtPosition(elementId, posX, posY);
+    if (element) {
+      this.recordCommand('add', before);
+    }
     return element !== null;
   }
   
@@ -533,44 +1122,282 @@ export class Game {
     const worldX = canvasX - this.panOffset.x;
     const worldY = canvasY - this.panOffset.y;
     
-    return this.addElement(elementId, worldX, worldY);
+    return this.addElementFromInventory(elementId, worldX, worldY);
+  }
+  
+  // Places one of the element from the inventory on the canvas
+  private addElementFromInventory(elementId: string, x: number, y: number): boolean {
+    if (!this.elementManager.isDiscovered(elementId) || !this.elementManager.takeElement(elementId)) {
+      return false;
+    }
+    
+    const before = this.getWorkspaceState();
+    const element = this.createElementAtPosition(elementId, x, y);
+    if (!element) {
+      this.elementManager.adjustCounts(Game.countChanges([], [elementId]));
+      return false;
+    }
+    this.recordCommand('add', before, undefined, Game.countChanges([elementId], []));
+    this.onInventoryChanged();
+    this.saveGameProgress();
+    return true;
+  }
+  
+  public getElementCount(elementId: string): number {
+    return this.elementManager.getElementCount(elementId);
+  }
+  
+  // Count changes for an operation that spends and produces these elements
+  private static countChanges(spent: string[], produced: string[]): Record<string, number> {
+    const changes: Record<string, number> = {};
+    spent.forEach(id => changes[id] = (changes[id] ?? 0) - 1);
+    produced.forEach(id => changes[id] = (changes[id] ?? 0) + 1);
+    return changes;
+  }
+  
+  private onInventoryChanged(): void {
+    window.dispatchEvent(new CustomEvent('inventoryChanged', {
+      detail: { counts: this.elementManager.getElementCounts() }
+    }));
   }
   
   public getHint(): string | null {
     return this.elementManager.getHint();
   }
   
+  public getHintCount(): number {
+    return this.hints;
+  }
+  
+  // Spends a hint on a recipe suggestion; null when there are none left
+  public useHint(): string | null {
+    if (this.hints <= 0) return null;
+    const hint = this.elementManager.findHint();
+    // Nothing to suggest: the player keeps the hint
+    if (!hint) return t('ui.messages.keepExperimenting');
+    this.hints--;
+    this.onGameStateChanged();
+    return hint;
+  }
+  
+  public getUpgrades(): Upgrade[] {
+    return this.upgradeManager.getUpgrades();
+  }
+  
+  public getUpgradeLevel(id: string): number {
+    return this.upgradeManager.getLevel(id);
+  }
+  
+  public getUpgradeCost(upgrade: Upgrade): number {
+    return this.upgradeManager.getCost(upgrade);
+  }
+  
+  public isUpgradeMaxed(upgrade: Upgrade): boolean {
+    return this.upgradeManager.isMaxed(upgrade);
+  }
+  
+  // Slots the auto-merger may use
+  public getAutoMergerSlots(): number {
+    return this.upgradeManager.getEffect('autoMergerSlots');
+  }
+  
+  public getAutoAlchemistLog(): AutoAlchemistLogEntry[] {
+    return this.autoAlchemist.getLog();
+  }
+  
+  public getAutoAlchemistSettings(): AutoAlchemistSettings {
+    return this.autoAlchemist.getSettings();
+  }
+  
+  public setAutoAlchemistInterval(interval: number): void {
+    this.autoAlchemist.setInterval(interval);
+  }
+  
+  public setAutoAlchemistPaused(paused: boolean): void {
+    this.autoAlchemist.setPaused(paused);
+  }
+  
+  public getMergeDistance(): number {
+    return this.mergeDistance + this.upgradeManager.getEffect('mergeDistance');
+  }
+  
+  public buyUpgrade(id: string): boolean {
+    const upgrade = this.upgradeManager.getUpgrades().find(u => u.id === id);
+    // Only the canvas owner's balance is current; it is the tab the player is using
+    if (!upgrade || this.upgradeManager.isMaxed(upgrade) || !tabSync.isCanvasOwner()) return false;
+    if (!this.essenceManager.spend(this.upgradeManager.getCost(upgrade))) return false;
+    
+    this.upgradeManager.addLevel(upgrade);
+    if (upgrade.effect === 'hintRefill') {
+      this.hints += upgrade.value;
+    }
+    this.onEssenceChanged();
+    this.onGameStateChanged();
+    return true;
+  }
+  
   public getProgress(): { discovered: number; total: number } {
     return this.elementManager.getDiscoveryProgress();
   }
   
   public clearCanvas(): void {
+    const before = this.getWorkspaceState();
+    // Cleared elements go back into the inventory
+    const refund = Game.countChanges([], this.elements.map(element => element.definition.id));
+    
     // Clear all elements from canvas - use while loop to avoid iteration issues
     while (this.elements.length > 0) {
       this.removeElement(this.elements[0]);
     }
+    this.elementManager.adjustCounts(refund);
     
     // Reset camera position when clearing
     this.resetCamera();
     
+    this.recordCommand('clear', before, undefined, refund);
+    this.recordAchievements('clear');
+    this.onInventoryChanged();
     this.onGameStateChanged();
   }
   
+  public getAchievements(): Achievement[] {
+    return this.achievementManager.getAchievements();
+  }
+  
+  public getAchievementUnlockedAt(id: string): string | null {
+    return this.achievementManager.getUnlockedAt(id);
+  }
+  
+  public getAchievementProgress(achievement: Achievement): { current: number; target: number } {
+    return this.achievementManager.getProgress(achievement, {
+      discoveredIds: this.elementManager.getDiscoveredIds(),
+      journal: this.elementManager.getJournal()
+    });
+  }
+  
+  public getQuests(): Quest[] {
+    return this.questManager.getQuests();
+  }
+  
+  public getQuestProgress(quest: Quest): number {
+    return this.questManager.getProgress(quest);
+  }
+  
+  public isQuestClaimed(quest: Quest): boolean {
+    return this.questManager.isClaimed(quest);
+  }
+  
+  public claimQuest(id: string): boolean {
+    // Rewards go to the canvas owner's balance, like shop purchases
+    if (!tabSync.isCanvasOwner()) return false;
+    const reward = this.questManager.claim(id);
+    if (!reward) return false;
+    
+    if (reward.type === 'essence') {
+      this.essenceManager.add(reward.amount);
+      this.onEssenceChanged();
+    } else {
+      this.hints += reward.amount;
+    }
+    console.log(`📜 Claimed quest ${id}: ${reward.amount} ${reward.type}`);
+    this.onQuestsChanged();
+    this.onGameStateChanged();
+    return true;
+  }
+  
+  private onQuestsChanged(): void {
+    window.dispatchEvent(new CustomEvent('questsChanged'));
+  }
+  
+  public getPrestigeCount(): number {
+    return this.prestigeManager.getCount();
+  }
+  
+  public getStones(): number {
+    return this.prestigeManager.getStones();
+  }
+  
+  public getBonusLevel(id: PrestigeBonusId): number {
+    return this.prestigeManager.getBonusLevel(id);
+  }
+  
+  public getBonusCost(id: PrestigeBonusId): number {
+    return this.prestigeManager.getBonusCost(id);
+  }
+  
+  public getBonusMultiplier(id: PrestigeBonusId): number {
+    return this.prestigeManager.getMultiplier(id);
+  }
+  
+  // Stones a transmutation would award right now
+  public getTransmuteAward(): number {
+    return this.prestigeManager.calculateAward(this.getDiscoveredElementIds());
+  }
+  
+  public buyBonus(id: PrestigeBonusId): boolean {
+    if (!this.prestigeManager.buyBonus(id)) return false;
+    this.onGameStateChanged();
+    return true;
+  }
+  
+  /**
+   * Prestige reset: discoveries, canvas and essence go back to the start and
+   * the player receives stones for what they had discovered. Returns the award.
+   */
+  public transmute(): number {
+    const award = this.getTransmuteAward();
+    if (award < 1 || this.loadError) return 0;
+    
+    const saveData = storage.get('save');
+    if (saveData) {
+      createBackup(saveData, 'transmute');
+    }
+    
+    this.clearCanvasElements();
+    this.elementManager.resetToBasicElements();
+    this.essenceManager.setEssence(0);
+    this.upgradeManager.reset();
+    this.hints = STARTING_HINTS;
+    this.autoAlchemist.clearLog();
+    this.prestigeManager.transmute(award);
+    this.resetCamera();
+    this.clearHistory();
+    
+    this.onGameStateChanged();
+    this.announceProgressReplaced();
+    return award;
+  }
+  
   public reset(): void {
     // Clear all elements from canvas
     while (this.elements.length > 0) {
       this.removeElement(this.elements[0]);
     }
     
+    // Keep what is being reset restorable; a save that failed to load is not backed up
+    const saveData = storage.get('save');
+    if (saveData && !this.loadError) {
+      createBackup(saveData, 'reset');
+    }
+    
     // Reset discovered elements to only basic 4 elements 
     this.elementManager.resetToBasicElements();
-    localStorage.removeItem('idle-alchemy-save');
+    this.essenceManager.setEssence(0);
+    this.upgradeManager.reset();
+    this.hints = STARTING_HINTS;
+    this.autoAlchemist.clearLog();
+    storage.remove('save');
+    
+    // Starting fresh discards a save that failed to load, so saving can resume
+    this.loadError = null;
     
     // Reset camera position
     this.resetCamera();
+    this.clearHistory();
     
     // Update UI to reflect reset state (canvas empty, discovery panel with basic 4 elements)
     this.onGameStateChanged();
+    this.announceProgressReplaced();
   }
   
   public resetCamera(): void {
@@ -585,6 +1412,104 @@ export class Game {
     this.onGameStateChanged();
   }
   
+  public exportSaveData(): string {
+    return serializeSave({
+      progress: this.elementManager.saveProgress(),
+      workspace: this.getWorkspaceState(),
+      essence: this.essenceManager.getEssence(),
+      lastSeen: new Date().toISOString(),
+      prestige: this.prestigeManager.getState(),
+      upgrades: this.upgradeManager.getLevels(),
+      hints: this.hints,
+      achievements: this.achievementManager.getState(),
+      quests: this.questManager.getState()
+    });
+  }
+  
+  public importSaveData(saveData: string): void {
+    // Parse first: an invalid save throws before any state is replaced
+    const save = parseSave(saveData);
+    
+    // Clearing the canvas mid-merge would destroy the merging elements
+    this.whenCanvasIdle('importSave', () => this.applyImportedSave(save));
+  }
+  
+  private applyImportedSave(save: GameSave): void {
+    this.clearCanvasElements();
+    
+    this.elementManager.loadProgress(save.progress);
+    this.essenceManager.setEssence(save.essence);
+    this.prestigeManager.loadState(save.prestige);
+    this.upgradeManager.loadLevels(save.upgrades);
+    this.hints = save.hints;
+    this.achievementManager.loadState(save.achievements);
+    this.questManager.loadState(save.quests);
+    this.recordAchievements(null);
+    if (save.workspace) {
+      this.restoreWorkspace(save.workspace);
+    } else {
+      this.resetZoom();
+    }
+    
+    this.loadError = null;
+    this.clearHistory();
+    this.onGameStateChanged();
+    this.announceProgressReplaced();
+  }
+  
+  public getEssence(): number {
+    return this.essenceManager.getEssence();
+  }
+  
+  public getEssenceRate(): number {
+    return this.essenceManager.getRate();
+  }
+  
+  public getJournal(): JournalEntry[] {
+    return this.elementManager.getJournal();
+  }
+  
+  public getDiscoveredElementIds(): string[] {
+    return this.elementManager.saveProgress().discoveredElements;
+  }
+  
+  // Replaces progress with a bare set of discoveries, e.g. from a share code
+  public loadDiscoveries(hexIds: string[]): void {
+    this.importSaveData(serializeSave({
+      progress: { discoveredElements: hexIds, elementCounts: {}, journal: [] },
+      essence: 0,
+      lastSeen: null,
+      // Shared discoveries do not include prestige; keep this player's
+      prestige: this.prestigeManager.getState(),
+      upgrades: {},
+      hints: STARTING_HINTS,
+      achievements: this.achievementManager.getState(),
+      quests: this.questManager.getState()
+    }));
+  }
+  
+  public restoreBackup(backupId: string): void {
+    const backup = getBackup(backupId);
+    if (!backup) {
+      throw new Error(`Backup '${backupId}' not found`);
+    }
+    
+    // Restoring is undoable too: back up the save it replaces
+    const saveData = storage.get('save');
+    if (saveData && !this.loadError) {
+      createBackup(saveData, 'restore');
+    }
+    this.importSaveData(backup.save);
+  }
+  
+  public getLoadError(): SaveFormatError | null {
+    return this.loadError;
+  }
+  
+  public hasRestoredWorkspace(): boolean {
+    return this.workspaceRestored;
+  }
+  
   public getAllCanvasElements(): Element[] {
     return this.elements;
   }
@@ -593,9 +1518,13 @@ export class Game {
     if (this.elements.length === 0) return;
 
     console.log(`🎯 Auto-arranging ${this.elements.length} elements`);
+    const before = this.getWorkspaceState();
     
     // Reset zoom to 100% for consistent arrangement
     this.resetZoom();
+    
+    // The arranged layout is known up front, so it is recorded before the animation runs
+    const after = this.getWorkspaceState();
 
     // Get actual canvas viewport dimensions
     const canvas = this.app.view as HTMLCanvasElement;
@@ -660,6 +1589,7 @@ export class Game {
       
       const targetX = gridStartX + col * (elementSize + spacing) + elementSize / 2;
       const targetY = gridStartY + row * (elementSize + spacing) + elementSize / 2;
+      after.elements[index] = { ...after.elements[index], x: targetX, y: targetY };
       
       console.log(`🎲 Element ${index}: (${col},${row}) -> (${targetX}, ${targetY})`);
       
@@ -668,28 +1598,35 @@ export class Game {
       const startY = element.y;
       
       let progress = 0;
-      const duration = 0.5; // Slightly faster animation
+      const duration = 500; // ms, slightly faster animation
       
-      const animate = () => {
-        progress += 0.016 / duration; // ~60fps animation
+      scheduler.onFrame(deltaMS => {
+        // Undone (or otherwise removed) before the animation finished
+        if (element.destroyed) return false;
+        
+        progress += deltaMS / duration;
         
         if (progress >= 1) {
           element.x = targetX;
           element.y = targetY;
-          return;
+          // All elements share the same duration; save once the last one lands
+          if (index === this.elements.length - 1) {
+            this.saveGameProgress();
+          }
+          return false;
         }
         
         // Smooth easing function (ease-out cubic)
         const eased = 1 - Math.pow(1 - progress, 3);
         element.x = startX + (targetX - startX) * eased;
         element.y = startY + (targetY - startY) * eased;
-        
-        requestAnimationFrame(animate);
-      };
-      
-      animate();
+      });
     });
     
+    this.recordCommand('autoArrange', before, after);
+    this.recordAchievements('arrange');
+    this.saveGameProgress();
+    
     console.log('✅ Auto-arrange animation started');
   }
 
@@ -708,6 +1645,8 @@ export class Game {
     });
     
     let removedCount = 0;
+    const removedIds: string[] = [];
+    const before = this.getWorkspaceState();
     
     // For each group, keep only the last element (most recently created)
     elementGroups.forEach((elementsOfType, _elementType) => {
@@ -716,14 +1655,19 @@ export class Game {
         const elementsToRemove = elementsOfType.slice(0, -1); // All except the last
         
         elementsToRemove.forEach(element => {
+          removedIds.push(element.definition.id);
           this.removeElement(element);
           removedCount++;
         });
       }
     });
     
-    // Update game state if any elements were removed
+    // Update game state if any elements were removed; they go back into the inventory
     if (removedCount > 0) {
+      const refund = Game.countChanges([], removedIds);
+      this.elementManager.adjustCounts(refund);
+      this.recordCommand('removeDuplicates', before, undefined, refund);
+      this.onInventoryChanged();
       this.onGameStateChanged();
     }
     
@@ -756,6 +1700,7 @@ export class Game {
     this.panOffset.y = this.gameContainer.y;
     
     console.log(`🔍 Canvas zoom set to: ${Math.round(this.zoomLevel * 100)}%`);
+    this.saveGameProgress();
   }
 
   public setZoom(zoomLevel: number): void {
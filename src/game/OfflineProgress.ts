@@ -0,0 +1,52 @@
+import { Rarity, calculateProductionRate, calculateProduction } from './EssenceManager';
+
+/**
+ * Catch-up production for time the game was not running (closed, or in a
+ * hidden tab where the scheduler is paused). Uses the same rate calculation
+ * as live production, so being away produces exactly what staying would have,
+ * up to maxDuration.
+ */
+
+export const MAX_OFFLINE_DURATION = 8 * 60 * 60 * 1000; // ms
+// Absences shorter than this are credited without a summary
+export const OFFLINE_REPORT_THRESHOLD = 60 * 1000; // ms
+
+export interface OfflineReport {
+  awayMs: number;
+  creditedMs: number;
+  essence: number;
+  capped: boolean;
+}
+
+export function calculateOfflineProgress(
+  rarities: Rarity[],
+  lastSeen: number,
+  now: number,
+  multiplier: number = 1,
+  maxDuration: number = MAX_OFFLINE_DURATION
+): OfflineReport {
+  // A clock that went backwards credits nothing rather than a negative amount
+  const awayMs = Math.max(0, now - lastSeen);
+  const creditedMs = Math.min(awayMs, maxDuration);
+  const rate = calculateProductionRate(rarities, multiplier);
+
+  return {
+    awayMs,
+    creditedMs,
+    essence: calculateProduction(rate, creditedMs / 1000),
+    capped: awayMs > maxDuration
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  if (totalMinutes > 0) {
+    return `${totalMinutes}m`;
+  }
+  return `${Math.floor(ms / 1000)}s`;
+}
@@ -0,0 +1,153 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { Rarity } from './EssenceManager';
+
+/**
+ * Transmutation (prestige). Transmuting resets discoveries to the base
+ * elements and awards Philosopher's Stones, which buy permanent bonuses.
+ * Prestige state is kept across transmutations and resets.
+ */
+
+export type PrestigeBonusId = 'production' | 'offline';
+
+export interface PrestigeState {
+  count: number;
+  stones: number;
+  bonuses: Record<PrestigeBonusId, number>;
+}
+
+interface PrestigeBonus {
+  baseCost: number;
+  // Each level costs this many times the previous one
+  costGrowth: number;
+  // Added to the multiplier per level
+  effectPerLevel: number;
+}
+
+export const PRESTIGE_BONUSES: Record<PrestigeBonusId, PrestigeBonus> = {
+  production: { baseCost: 1, costGrowth: 2, effectPerLevel: 0.5 },
+  offline: { baseCost: 2, costGrowth: 2, effectPerLevel: 0.25 }
+};
+
+// How much a discovery of each rarity is worth when transmuting
+const RARITY_WEIGHTS: Record<Rarity, number> = {
+  basic: 0,
+  common: 1,
+  uncommon: 2,
+  rare: 4,
+  legendary: 8
+};
+
+export function createPrestigeState(): PrestigeState {
+  return { count: 0, stones: 0, bonuses: { production: 0, offline: 0 } };
+}
+
+/**
+ * Recipe depth of every element: base elements are 0, anything else is one
+ * more than the deeper input of its shallowest recipe. Unreachable elements
+ * are left out.
+ */
+export function calculateElementDepths(): Map<string, number> {
+  const config = configLoader.getGameConfig();
+  const depths = new Map<string, number>();
+  configLoader.getBaseElements().forEach(element => depths.set(element.id, 0));
+
+  // Relax until nothing gets shallower; bounded by the number of recipes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    config.recipes.forEach(recipe => {
+      const inputDepths = recipe.inputs.map(id => depths.get(id));
+      if (inputDepths.some(depth => depth === undefined)) return;
+
+      const depth = Math.max(...(inputDepths as number[])) + 1;
+      recipe.outputs.forEach(output => {
+        const current = depths.get(output);
+        if (current === undefined || depth < current) {
+          depths.set(output, depth);
+          changed = true;
+        }
+      });
+    });
+  }
+  return depths;
+}
+
+export class PrestigeManager {
+  private state: PrestigeState = createPrestigeState();
+  private depthCache: { language: string; depths: Map<string, number> } | null = null;
+
+  public getState(): PrestigeState {
+    return {
+      ...this.state,
+      bonuses: { ...this.state.bonuses }
+    };
+  }
+
+  public loadState(state: PrestigeState): void {
+    this.state = {
+      ...state,
+      bonuses: { ...createPrestigeState().bonuses, ...state.bonuses }
+    };
+  }
+
+  public getCount(): number {
+    return this.state.count;
+  }
+
+  public getStones(): number {
+    return this.state.stones;
+  }
+
+  public getBonusLevel(id: PrestigeBonusId): number {
+    return this.state.bonuses[id];
+  }
+
+  public getBonusCost(id: PrestigeBonusId): number {
+    const bonus = PRESTIGE_BONUSES[id];
+    return bonus.baseCost * Math.pow(bonus.costGrowth, this.state.bonuses[id]);
+  }
+
+  public getMultiplier(id: PrestigeBonusId): number {
+    return 1 + PRESTIGE_BONUSES[id].effectPerLevel * this.state.bonuses[id];
+  }
+
+  public buyBonus(id: PrestigeBonusId): boolean {
+    const cost = this.getBonusCost(id);
+    if (this.state.stones < cost) return false;
+
+    this.state.stones -= cost;
+    this.state.bonuses[id]++;
+    console.log(`💎 Bought ${id} bonus level ${this.state.bonuses[id]} for ${cost} stones`);
+    return true;
+  }
+
+  /**
+   * Stones a transmutation would award for these discoveries: each element
+   * is worth its rarity weight times (1 + recipe depth), and the total grows
+   * with the square root so later runs need more than linear effort.
+   */
+  public calculateAward(discoveredIds: string[]): number {
+    const depths = this.getDepths();
+    const points = discoveredIds.reduce((total, id) => {
+      const element = configLoader.getElementById(id);
+      if (!element) return total;
+      return total + RARITY_WEIGHTS[element.rarity] * (1 + (depths.get(id) ?? 0));
+    }, 0);
+    return Math.floor(Math.sqrt(points / 10));
+  }
+
+  // Records a transmutation; the caller resets discoveries
+  public transmute(award: number): void {
+    this.state.count++;
+    this.state.stones += award;
+    console.log(`⚗️ Transmutation #${this.state.count}: +${award} stones`);
+  }
+
+  private getDepths(): Map<string, number> {
+    const language = configLoader.getCurrentLanguage();
+    if (!this.depthCache || this.depthCache.language !== language) {
+      this.depthCache = { language, depths: calculateElementDepths() };
+    }
+    return this.depthCache.depths;
+  }
+}
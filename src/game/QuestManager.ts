@@ -0,0 +1,234 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { calculateElementDepths } from './PrestigeManager';
+
+/**
+ * Daily and weekly quests. Each period's quests are generated from the recipe
+ * graph with a random generator seeded by the period's UTC date, so every
+ * player sees the same set on the same day. Only progress and claims are
+ * saved; the quests themselves are regenerated whenever they are needed, and
+ * state for periods that have ended is dropped.
+ */
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+export type QuestGoal =
+  | { type: 'make'; elementId: string }
+  | { type: 'discoverCategory'; category: string }
+  | { type: 'merges' };
+
+export interface QuestReward {
+  type: 'essence' | 'hints';
+  amount: number;
+}
+
+export interface Quest {
+  // e.g. "daily:2026-10-19:en:0"
+  id: string;
+  period: QuestPeriod;
+  goal: QuestGoal;
+  target: number;
+  reward: QuestReward;
+  // End of the period (ms since epoch)
+  expiresAt: number;
+}
+
+export interface QuestState {
+  // Quest ID -> progress towards its target
+  progress: Record<string, number>;
+  claimed: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recipe depths that make-quests pick from; weekly ones need longer chains
+const MAKE_DEPTHS: Record<QuestPeriod, { min: number; max: number }> = {
+  daily: { min: 1, max: 2 },
+  weekly: { min: 2, max: 4 }
+};
+
+export function createQuestState(): QuestState {
+  return { progress: {}, claimed: [] };
+}
+
+// Start of the period containing `now` (UTC); weeks start on Monday
+export function getPeriodStart(period: QuestPeriod, now: number): number {
+  const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+  if (period === 'daily') return dayStart;
+  const daysSinceMonday = (new Date(dayStart).getUTCDay() + 6) % 7;
+  return dayStart - daysSinceMonday * DAY_MS;
+}
+
+export function getPeriodEnd(period: QuestPeriod, now: number): number {
+  return getPeriodStart(period, now) + (period === 'daily' ? DAY_MS : 7 * DAY_MS);
+}
+
+// mulberry32 seeded with an FNV-1a hash of the seed text
+function createRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates one period's quests. Candidates are sorted by ID first so the
+ * result depends only on the seed and the config, not on load order.
+ */
+export function generateQuests(period: QuestPeriod, now: number): Quest[] {
+  const start = getPeriodStart(period, now);
+  const date = new Date(start).toISOString().slice(0, 10);
+  const language = configLoader.getCurrentLanguage();
+  const random = createRandom(`${period}:${date}`);
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const depths = calculateElementDepths();
+  const outputs = [...new Set(configLoader.getGameConfig().recipes.flatMap(recipe => recipe.outputs))].sort();
+  const { min, max } = MAKE_DEPTHS[period];
+  const makeable = outputs.filter(id => {
+    const depth = depths.get(id);
+    return depth !== undefined && depth >= min && depth <= max;
+  });
+  const categories = [...new Set(configLoader.getGameConfig().elements
+    .filter(element => element.category !== 'basic')
+    .map(element => element.category))].sort();
+
+  const goals: { goal: QuestGoal; target: number }[] = period === 'daily'
+    ? [
+      { goal: { type: 'make', elementId: pick(makeable.length > 0 ? makeable : outputs) }, target: between(3, 5) },
+      { goal: { type: 'discoverCategory', category: pick(categories) }, target: 1 },
+      { goal: { type: 'merges' }, target: between(2, 4) * 5 }
+    ]
+    : [
+      { goal: { type: 'make', elementId: pick(makeable.length > 0 ? makeable : outputs) }, target: between(10, 15) },
+      { goal: { type: 'merges' }, target: between(10, 15) * 10 }
+    ];
+
+  const expiresAt = getPeriodEnd(period, now);
+  return goals.map(({ goal, target }, index) => ({
+    id: `${period}:${date}:${language}:${index}`,
+    period,
+    goal,
+    target,
+    reward: random() < 0.5
+      ? { type: 'essence', amount: target * (period === 'daily' ? 10 : 25) }
+      : { type: 'hints', amount: period === 'daily' ? 1 : 5 },
+    expiresAt
+  }));
+}
+
+export class QuestManager {
+  private state: QuestState = createQuestState();
+  private cache: { key: string; quests: Quest[] } | null = null;
+  // Start of the day prune() last ran in, to notice new quests appearing
+  private prunedDay: number | null = null;
+
+  public getState(): QuestState {
+    return { progress: { ...this.state.progress }, claimed: [...this.state.claimed] };
+  }
+
+  public loadState(state: QuestState): void {
+    this.state = { progress: { ...state.progress }, claimed: [...state.claimed] };
+    this.prune();
+  }
+
+  // Adds another tab's progress and claims
+  public mergeState(other: QuestState): void {
+    Object.entries(other.progress).forEach(([id, progress]) => {
+      this.state.progress[id] = Math.max(this.state.progress[id] ?? 0, progress);
+    });
+    this.state.claimed = [...new Set([...this.state.claimed, ...other.claimed])];
+    this.prune();
+  }
+
+  // The current daily quests followed by the weekly ones
+  public getQuests(now: number = Date.now()): Quest[] {
+    const key = [
+      configLoader.getCurrentLanguage(),
+      getPeriodStart('daily', now),
+      getPeriodStart('weekly', now)
+    ].join(':');
+    if (!this.cache || this.cache.key !== key) {
+      this.cache = { key, quests: [...generateQuests('daily', now), ...generateQuests('weekly', now)] };
+    }
+    return this.cache.quests;
+  }
+
+  public getProgress(quest: Quest): number {
+    return Math.min(this.state.progress[quest.id] ?? 0, quest.target);
+  }
+
+  public isComplete(quest: Quest): boolean {
+    return this.getProgress(quest) >= quest.target;
+  }
+
+  public isClaimed(quest: Quest): boolean {
+    return this.state.claimed.includes(quest.id);
+  }
+
+  /**
+   * Counts one merge towards the current quests. A merge with several outputs
+   * counts once per output that matches. Returns true when any quest's
+   * progress changed.
+   */
+  public recordMerge(outputs: string[], newDiscoveries: string[]): boolean {
+    let changed = false;
+    this.getQuests().forEach(quest => {
+      const count = this.count(quest, outputs, newDiscoveries);
+      if (this.isComplete(quest) || count === 0) return;
+      this.state.progress[quest.id] = Math.min(this.getProgress(quest) + count, quest.target);
+      changed = true;
+      if (this.isComplete(quest)) {
+        console.log(`📜 Quest complete: ${quest.id}`);
+      }
+    });
+    return changed;
+  }
+
+  // Marks a completed quest as claimed and returns its reward
+  public claim(id: string): QuestReward | null {
+    const quest = this.getQuests().find(q => q.id === id);
+    if (!quest || !this.isComplete(quest) || this.isClaimed(quest)) return null;
+
+    this.state.claimed.push(quest.id);
+    return quest.reward;
+  }
+
+  /**
+   * Drops progress and claims from periods that have ended. Quests of the
+   * other language are kept so switching back does not lose them.
+   * Returns true when a new period started since the last call.
+   */
+  public prune(now: number = Date.now()): boolean {
+    const day = getPeriodStart('daily', now);
+    const rolledOver = this.prunedDay !== null && this.prunedDay !== day;
+    this.prunedDay = day;
+
+    const periods = (['daily', 'weekly'] as QuestPeriod[]).map(period =>
+      `${period}:${new Date(getPeriodStart(period, now)).toISOString().slice(0, 10)}:`);
+    const isCurrent = (id: string) => periods.some(prefix => id.startsWith(prefix));
+    const expired = Object.keys(this.state.progress).filter(id => !isCurrent(id));
+    const claimed = this.state.claimed.filter(isCurrent);
+    expired.forEach(id => delete this.state.progress[id]);
+    this.state.claimed = claimed;
+    return rolledOver;
+  }
+
+  private count(quest: Quest, outputs: string[], newDiscoveries: string[]): number {
+    const goal = quest.goal;
+    switch (goal.type) {
+      case 'make':
+        return outputs.filter(output => output === goal.elementId).length;
+      case 'discoverCategory':
+        return newDiscoveries.filter(id => configLoader.getElementById(id)?.category === goal.category).length;
+      case 'merges':
+        return 1;
+    }
+  }
+}
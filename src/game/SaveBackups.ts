@@ -0,0 +1,77 @@
+import { storage } from '@/storage/StorageService';
+import { parseSave } from './SaveFormat';
+
+/**
+ * Rolling backups of the save, kept per profile beside it.
+ *
+ * A backup is taken when a save loads successfully and then at most every
+ * AUTO_BACKUP_INTERVAL while playing. Resets, transmutations and restores
+ * back up the save they replace; those backups rotate separately so a long
+ * session of automatic backups cannot push them out.
+ */
+
+export const MAX_BACKUPS = 5;
+const AUTO_BACKUP_INTERVAL = 5 * 60 * 1000; // ms
+
+export type BackupReason = 'auto' | 'reset' | 'restore' | 'transmute';
+
+export interface SaveBackup {
+  id: string;
+  createdAt: string;
+  reason: BackupReason;
+  discoveredCount: number;
+  // Raw save string, exactly as it was stored
+  save: string;
+}
+
+// Newest first
+export function getBackups(): SaveBackup[] {
+  const backups = storage.get('saveBackups');
+  if (!Array.isArray(backups)) return [];
+  return [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getBackup(id: string): SaveBackup | undefined {
+  return getBackups().find(backup => backup.id === id);
+}
+
+/**
+ * Stores a copy of a save. Only saves that load cleanly are kept, so every
+ * backup offered for recovery is known to be restorable.
+ */
+export function createBackup(saveData: string, reason: BackupReason): SaveBackup | null {
+  let discoveredCount: number;
+  try {
+    discoveredCount = parseSave(saveData).progress.discoveredElements.length;
+  } catch (error) {
+    console.warn('⚠️ Not backing up a save that does not load:', error);
+    return null;
+  }
+
+  const backup: SaveBackup = {
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+    createdAt: new Date().toISOString(),
+    reason,
+    discoveredCount,
+    save: saveData
+  };
+
+  const isAuto = (b: SaveBackup) => b.reason === 'auto';
+  const backups = [backup, ...getBackups()];
+  const kept = [
+    ...backups.filter(isAuto).slice(0, MAX_BACKUPS),
+    ...backups.filter(b => !isAuto(b)).slice(0, MAX_BACKUPS)
+  ];
+  storage.set('saveBackups', kept);
+
+  console.log(`💾 Backed up save (${reason}, ${discoveredCount} discovered)`);
+  return backup;
+}
+
+export function backupIfDue(saveData: string): void {
+  const latest = getBackups().find(backup => backup.reason === 'auto');
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < AUTO_BACKUP_INTERVAL) {
+    return;
+  }
+  createBackup(saveData, 'auto');
+}
@@ -0,0 +1,100 @@
+import { parseSave, SaveFormatError, toHexIds, toOriginalIds } from './SaveFormat';
+
+/**
+ * Portable save files for moving progress between browsers and devices.
+ *
+ * The file wraps the game save together with the UI state that lives outside
+ * it (discovery order and preferences). A checksum over the payload catches
+ * truncated or hand-edited files before anything is replaced.
+ */
+
+export const EXPORT_FORMAT = 'idle-alchemy-export';
+export const EXPORT_VERSION = 1;
+
+const SORT_OPTIONS = ['alphabetical-asc', 'alphabetical-desc', 'discovery-asc', 'discovery-desc'];
+
+export interface ExportSettings {
+  sort: string;
+  zoom: number; // percent, as stored by the zoom buttons
+  darkMode: boolean;
+}
+
+// Runtime view: discoveryOrder uses hex IDs; save is the raw serialized save string
+export interface ExportBundle {
+  save: string;
+  discoveryOrder: string[];
+  settings: ExportSettings;
+}
+
+export function createExportFile(bundle: ExportBundle): string {
+  const payload = {
+    save: JSON.parse(bundle.save),
+    discoveryOrder: toOriginalIds(bundle.discoveryOrder),
+    settings: bundle.settings
+  };
+
+  return JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(JSON.stringify(payload)),
+    payload
+  }, null, 2);
+}
+
+/**
+ * Validates an export file (format, checksum, schema) and returns its contents.
+ * Throws SaveFormatError without side effects if anything is wrong.
+ */
+export function parseExportFile(text: string): ExportBundle {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new SaveFormatError('File is not valid JSON');
+  }
+
+  if (file?.format !== EXPORT_FORMAT) {
+    throw new SaveFormatError('Not an Idle Alchemy save file');
+  }
+  if (file.version !== EXPORT_VERSION) {
+    throw new SaveFormatError(`Unsupported export version: ${file.version}`);
+  }
+  if (!file.payload || typeof file.payload !== 'object') {
+    throw new SaveFormatError('Save file has no payload');
+  }
+  if (file.checksum !== checksum(JSON.stringify(file.payload))) {
+    throw new SaveFormatError('Checksum mismatch: the file is damaged or was modified');
+  }
+
+  const { save, discoveryOrder, settings } = file.payload;
+
+  // Runs the same migration and validation as loading from storage
+  const saveString = JSON.stringify(save);
+  parseSave(saveString);
+
+  if (!Array.isArray(discoveryOrder) || !discoveryOrder.every((id: unknown) => typeof id === 'string')) {
+    throw new SaveFormatError('discoveryOrder must be an array of element IDs');
+  }
+  if (!settings || !SORT_OPTIONS.includes(settings.sort) ||
+      typeof settings.zoom !== 'number' || settings.zoom < 50 || settings.zoom > 200 ||
+      typeof settings.darkMode !== 'boolean') {
+    throw new SaveFormatError('Invalid settings in save file');
+  }
+
+  return {
+    save: saveString,
+    discoveryOrder: toHexIds(discoveryOrder),
+    settings: { sort: settings.sort, zoom: settings.zoom, darkMode: settings.darkMode }
+  };
+}
+
+// FNV-1a (32-bit). Detects corruption; not meant to resist deliberate tampering.
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,385 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { PrestigeState, createPrestigeState } from './PrestigeManager';
+import { UpgradeLevels } from './UpgradeManager';
+import { AchievementState, createAchievementState } from './AchievementManager';
+import { QuestState, createQuestState } from './QuestManager';
+
+/**
+ * Versioned save format for `idle-alchemy-save`.
+ *
+ * On disk, element IDs are stored as the stable original string IDs from the
+ * TSV files (e.g. "steam"), not the compiled hex IDs. Hex IDs are derived by
+ * compile-config.js and may change if ID generation changes; original IDs do
+ * not. The game itself works with hex IDs, so conversion happens here at the
+ * load/save boundary.
+ *
+ * To change the format: bump SAVE_VERSION and append a migration that upgrades
+ * the previous version's data. Migrations run step by step, so every older
+ * save walks the whole chain.
+ */
+
+export const SAVE_VERSION = 10;
+
+// Hints a new game starts with
+export const STARTING_HINTS = 3;
+
+// Stock each discovered element gets when a save from before the inventory is migrated
+export const LEGACY_STARTING_STOCK = 5;
+
+export interface CanvasElementState {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  // Time left for elements that decay (ms); missing means a full lifetime
+  lifetime?: number;
+}
+
+export interface WorkspaceState {
+  elements: CanvasElementState[];
+  panOffset: { x: number; y: number };
+  zoomLevel: number;
+}
+
+// One discovery and the merge that produced it
+export interface JournalEntry {
+  elementId: string;
+  inputs: string[];
+  discoveredAt: string;
+  sessionId: string;
+}
+
+export interface ProgressData {
+  discoveredElements: string[];
+  elementCounts: Record<string, number>;
+  journal: JournalEntry[];
+}
+
+// Runtime view of a save: IDs are hex IDs from the current compiled config
+export interface GameSave {
+  progress: ProgressData;
+  workspace?: WorkspaceState;
+  essence: number;
+  // When the game was last running (ISO time); null if unknown
+  lastSeen: string | null;
+  // Kept through resets and transmutations
+  prestige: PrestigeState;
+  // Shop upgrade levels by upgrade ID
+  upgrades: UpgradeLevels;
+  hints: number;
+  // Kept through resets and transmutations
+  achievements: AchievementState;
+  // Progress and claims for the current daily and weekly quests
+  quests: QuestState;
+}
+
+export interface SaveEnvelope {
+  version: number;
+  savedAt: string;
+  data: any;
+}
+
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFormatError';
+  }
+}
+
+type Migration = (data: any) => any;
+
+// MIGRATIONS[n] upgrades data from version n to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: unversioned payload with hex IDs -> v2: original string IDs
+  // Malformed fields are passed through untouched so validation reports them
+  1: (data) => ({
+    discoveredElements: Array.isArray(data.discoveredElements)
+      ? mapIds(data.discoveredElements, hexToOriginalId)
+      : data.discoveredElements ?? [],
+    elementCounts: data.elementCounts && typeof data.elementCounts === 'object'
+      ? mapKeys(data.elementCounts, hexToOriginalId)
+      : data.elementCounts ?? {},
+    workspace: data.workspace && Array.isArray(data.workspace.elements) ? {
+      ...data.workspace,
+      elements: mapElements(data.workspace.elements, hexToOriginalId)
+    } : data.workspace
+  }),
+  // v2 -> v3: discovery journal
+  2: (data) => ({
+    ...data,
+    journal: data.journal ?? []
+  }),
+  // v3 -> v4: essence balance
+  3: (data) => ({
+    ...data,
+    essence: data.essence ?? 0
+  }),
+  // v4 -> v5: last-seen time for offline progress (unknown for older saves)
+  4: (data) => ({
+    ...data,
+    lastSeen: data.lastSeen ?? null
+  }),
+  // v5 -> v6: transmutation count, stones and bonuses
+  5: (data) => ({
+    ...data,
+    prestige: data.prestige ?? createPrestigeState()
+  }),
+  // v6 -> v7: shop upgrades and hint charges
+  6: (data) => ({
+    ...data,
+    upgrades: data.upgrades ?? {},
+    hints: data.hints ?? STARTING_HINTS
+  }),
+  // v7 -> v8: achievement unlocks and the counters they use
+  7: (data) => ({
+    ...data,
+    achievements: data.achievements ?? createAchievementState()
+  }),
+  // v8 -> v9: quest progress and claims
+  8: (data) => ({
+    ...data,
+    quests: data.quests ?? createQuestState()
+  }),
+  // v9 -> v10: elements were unlimited before the inventory, so give them a starting stock
+  // Base elements are left to ElementManager, which fills missing base counts to the cap
+  9: (data) => ({
+    ...data,
+    elementCounts: Array.isArray(data.discoveredElements) && data.elementCounts && typeof data.elementCounts === 'object'
+      ? withStartingStock(data.discoveredElements, data.elementCounts)
+      : data.elementCounts
+  })
+};
+
+export function serializeSave(save: GameSave): string {
+  const envelope: SaveEnvelope = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    data: {
+      discoveredElements: mapIds(save.progress.discoveredElements, hexToOriginalId),
+      elementCounts: mapKeys(save.progress.elementCounts, hexToOriginalId),
+      journal: mapJournal(save.progress.journal, hexToOriginalId),
+      workspace: save.workspace ? {
+        ...save.workspace,
+        elements: mapElements(save.workspace.elements, hexToOriginalId)
+      } : undefined,
+      essence: save.essence,
+      lastSeen: save.lastSeen,
+      prestige: save.prestige,
+      upgrades: save.upgrades,
+      hints: save.hints,
+      achievements: save.achievements,
+      quests: save.quests
+    }
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parses, migrates and validates a raw save string.
+ * Throws SaveFormatError for anything that cannot be loaded completely.
+ */
+export function parseSave(raw: string): GameSave {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new SaveFormatError(`Save data is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const envelope = toEnvelope(parsed);
+  const data = migrateSave(envelope);
+  validateSaveData(data);
+
+  return {
+    progress: {
+      discoveredElements: mapIds(data.discoveredElements, originalToHexId),
+      elementCounts: mapKeys(data.elementCounts, originalToHexId),
+      journal: mapJournal(data.journal, originalToHexId)
+    },
+    workspace: data.workspace ? {
+      ...data.workspace,
+      elements: mapElements(data.workspace.elements, originalToHexId)
+    } : undefined,
+    essence: data.essence,
+    lastSeen: data.lastSeen,
+    prestige: {
+      ...data.prestige,
+      bonuses: { ...createPrestigeState().bonuses, ...data.prestige.bonuses }
+    },
+    upgrades: data.upgrades,
+    hints: data.hints,
+    achievements: {
+      unlocked: data.achievements.unlocked,
+      stats: { ...createAchievementState().stats, ...data.achievements.stats }
+    },
+    quests: data.quests
+  };
+}
+
+export function migrateSave(envelope: SaveEnvelope): any {
+  if (envelope.version > SAVE_VERSION) {
+    throw new SaveFormatError(
+      `Save version ${envelope.version} is newer than the supported version ${SAVE_VERSION}. Update the game to load this save.`
+    );
+  }
+
+  let data = envelope.data;
+  for (let version = envelope.version; version < SAVE_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new SaveFormatError(`No migration from save version ${version} to ${version + 1}`);
+    }
+    console.log(`💾 Migrating save from v${version} to v${version + 1}`);
+    data = migration(data);
+  }
+  return data;
+}
+
+function toEnvelope(parsed: any): SaveEnvelope {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SaveFormatError('Save data is not an object');
+  }
+
+  // Saves written before versioning was introduced are the bare payload
+  if (!('version' in parsed)) {
+    return { version: 1, savedAt: '', data: parsed };
+  }
+
+  if (!Number.isInteger(parsed.version) || parsed.version < 1) {
+    throw new SaveFormatError(`Invalid save version: ${JSON.stringify(parsed.version)}`);
+  }
+  if (!parsed.data || typeof parsed.data !== 'object') {
+    throw new SaveFormatError('Save envelope has no data');
+  }
+  return parsed as SaveEnvelope;
+}
+
+function validateSaveData(data: any): void {
+  if (!Array.isArray(data.discoveredElements) || !data.discoveredElements.every((id: unknown) => typeof id === 'string')) {
+    throw new SaveFormatError('discoveredElements must be an array of element IDs');
+  }
+  if (!data.elementCounts || typeof data.elementCounts !== 'object' ||
+      !Object.values(data.elementCounts).every(count => typeof count === 'number')) {
+    throw new SaveFormatError('elementCounts must map element IDs to numbers');
+  }
+  const isEntry = (entry: any) => entry && typeof entry.elementId === 'string' &&
+    Array.isArray(entry.inputs) && entry.inputs.every((id: unknown) => typeof id === 'string') &&
+    typeof entry.discoveredAt === 'string' && typeof entry.sessionId === 'string';
+  if (!Array.isArray(data.journal) || !data.journal.every(isEntry)) {
+    throw new SaveFormatError('journal must be a list of { elementId, inputs, discoveredAt, sessionId }');
+  }
+  if (typeof data.essence !== 'number' || !isFinite(data.essence) || data.essence < 0) {
+    throw new SaveFormatError('essence must be a non-negative number');
+  }
+  if (data.lastSeen !== null && (typeof data.lastSeen !== 'string' || isNaN(Date.parse(data.lastSeen)))) {
+    throw new SaveFormatError('lastSeen must be a date or null');
+  }
+  const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  const prestige = data.prestige;
+  if (!prestige || !isCount(prestige.count) || !isCount(prestige.stones) ||
+      !prestige.bonuses || typeof prestige.bonuses !== 'object' ||
+      !Object.values(prestige.bonuses).every(isCount)) {
+    throw new SaveFormatError('prestige must have a count, stones and bonus levels');
+  }
+  if (!data.upgrades || typeof data.upgrades !== 'object' || !Object.values(data.upgrades).every(isCount)) {
+    throw new SaveFormatError('upgrades must map upgrade IDs to levels');
+  }
+  if (!isCount(data.hints)) {
+    throw new SaveFormatError('hints must be a non-negative whole number');
+  }
+  const achievements = data.achievements;
+  if (!achievements || !achievements.unlocked || typeof achievements.unlocked !== 'object' ||
+      !Object.values(achievements.unlocked).every(at => typeof at === 'string' && !isNaN(Date.parse(at))) ||
+      !achievements.stats || typeof achievements.stats !== 'object' ||
+      !Object.values(achievements.stats).every(isCount)) {
+    throw new SaveFormatError('achievements must have unlock times and counters');
+  }
+  const quests = data.quests;
+  if (!quests || !quests.progress || typeof quests.progress !== 'object' ||
+      !Object.values(quests.progress).every(isCount) ||
+      !Array.isArray(quests.claimed) || !quests.claimed.every((id: unknown) => typeof id === 'string')) {
+    throw new SaveFormatError('quests must have progress counts and claimed quest IDs');
+  }
+
+  const workspace = data.workspace;
+  if (workspace === undefined) return;
+
+  const isPoint = (p: any) => p && typeof p.x === 'number' && typeof p.y === 'number';
+  if (!Array.isArray(workspace.elements) ||
+      !workspace.elements.every((el: any) => typeof el?.id === 'string' && isPoint(el) && typeof el.z === 'number' &&
+        (el.lifetime === undefined || (typeof el.lifetime === 'number' && el.lifetime >= 0)))) {
+    throw new SaveFormatError('workspace.elements must be a list of { id, x, y, z, lifetime? }');
+  }
+  if (!isPoint(workspace.panOffset) || typeof workspace.zoomLevel !== 'number') {
+    throw new SaveFormatError('workspace camera must have panOffset and zoomLevel');
+  }
+}
+
+export function toOriginalIds(hexIds: string[]): string[] {
+  return mapIds(hexIds, hexToOriginalId);
+}
+
+export function toHexIds(originalIds: string[]): string[] {
+  return mapIds(originalIds, originalToHexId);
+}
+
+function hexToOriginalId(hexId: string): string | undefined {
+  return configLoader.getElementById(hexId)?.originalId;
+}
+
+function originalToHexId(originalId: string): string | undefined {
+  return configLoader.getElementByOriginalId(originalId)?.id;
+}
+
+// Unknown IDs are dropped (e.g. elements removed from the TSV since the save was written)
+function mapIds(ids: string[], convert: (id: string) => string | undefined): string[] {
+  return ids.flatMap(id => {
+    const converted = convert(id);
+    if (converted === undefined) {
+      console.warn(`Dropping unknown element ${id} from save`);
+      return [];
+    }
+    return [converted];
+  });
+}
+
+function withStartingStock(discovered: string[], counts: Record<string, number>): Record<string, number> {
+  const baseIds = new Set(configLoader.getBaseElements().map(element => element.originalId));
+  const result = { ...counts };
+  discovered.forEach(id => {
+    if (!baseIds.has(id)) {
+      result[id] = Math.max(typeof counts[id] === 'number' ? counts[id] : 0, LEGACY_STARTING_STOCK);
+    }
+  });
+  return result;
+}
+
+function mapKeys(record: Record<string, number>, convert: (id: string) => string | undefined): Record<string, number> {
+  const result: Record<string, number> = {};
+  Object.entries(record).forEach(([id, value]) => {
+    const converted = convert(id);
+    if (converted !== undefined) {
+      result[converted] = value;
+    }
+  });
+  return result;
+}
+
+// Entries that mention an unknown element are dropped as a whole
+function mapJournal(entries: JournalEntry[], convert: (id: string) => string | undefined): JournalEntry[] {
+  return entries.flatMap(entry => {
+    const elementId = convert(entry.elementId);
+    const inputs = entry.inputs.map(convert);
+    if (elementId === undefined || inputs.some(id => id === undefined)) {
+      return [];
+    }
+    return [{ ...entry, elementId, inputs: inputs as string[] }];
+  });
+}
+
+function mapElements(elements: CanvasElementState[], convert: (id: string) => string | undefined): CanvasElementState[] {
+  return elements.flatMap(element => {
+    const converted = convert(element.id);
+    return converted === undefined ? [] : [{ ...element, id: converted }];
+  });
+}
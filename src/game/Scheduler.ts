@@ -0,0 +1,230 @@
+import * as PIXI from 'pixi.js';
+
+/**
+ * Central clock for everything that happens over time: per-frame animations,
+ * named timers and fixed-step simulation for the idle systems. It is driven
+ * by the PIXI ticker, or only by advance() when the clock is manual (tests).
+ *
+ * While the page is hidden nothing runs. Browsers stop animation frames in
+ * background tabs anyway; pausing explicitly means frames that stall for
+ * longer than MAX_FRAME_GAP are treated the same way. Resume listeners are
+ * told how long the pause was so the idle systems can credit it as time away.
+ *
+ * Storage writes keep their own timer: they have to happen while hidden.
+ */
+
+// Return false to stop receiving frames
+export type FrameCallback = (deltaMS: number) => boolean | void;
+
+interface Timer {
+  dueAt: number;
+  // Repeat interval; null for a one-shot timer
+  interval: number | null;
+  callback: () => void;
+}
+
+interface FixedStep {
+  stepMS: number;
+  accumulated: number;
+  callback: (stepMS: number) => void;
+}
+
+// Longer frames are pauses (e.g. a sleeping laptop), not simulation time
+export const MAX_FRAME_GAP = 1000; // ms
+// One frame at 60fps, for animations tuned in per-frame steps
+export const FRAME_MS = 1000 / 60;
+// Slice size advance() steps the manual clock in
+const MANUAL_FRAME = 16; // ms
+
+export class Scheduler {
+  private static instance: Scheduler;
+  private manual: boolean = false;
+  private paused: boolean = false;
+  // Scheduler time: only moves while running
+  private time: number = 0;
+  // Wall-clock time of the last frame and of the pause start
+  private lastFrameAt: number | null = null;
+  private pausedAt: number | null = null;
+  private manualNow: number = 0;
+  private frames: Set<FrameCallback> = new Set();
+  private timers: Map<string, Timer> = new Map();
+  private fixedSteps: Map<string, FixedStep> = new Map();
+  private resumeListeners: Array<(pausedMS: number) => void> = [];
+  private anonymousTimers: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): Scheduler {
+    if (!Scheduler.instance) {
+      Scheduler.instance = new Scheduler();
+    }
+    return Scheduler.instance;
+  }
+
+  // Starts following the game's ticker and the page visibility
+  public attach(ticker: PIXI.Ticker): void {
+    ticker.add(() => {
+      if (!this.manual) this.tick();
+    });
+    this.paused = document.visibilityState === 'hidden';
+    this.pausedAt = this.paused ? this.now() : null;
+    document.addEventListener('visibilitychange', () => {
+      this.setPaused(document.visibilityState === 'hidden');
+    });
+  }
+
+  // A manual clock only moves with advance(), for tests
+  public setManual(manual: boolean): void {
+    this.manual = manual;
+    this.lastFrameAt = null;
+    console.log(`⏱️ Scheduler clock: ${manual ? 'manual' : 'ticker'}`);
+  }
+
+  public isManual(): boolean {
+    return this.manual;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Moves a manual clock forward, running frames in small slices like the
+   * ticker would. While paused only the wall clock moves.
+   */
+  public advance(ms: number): void {
+    for (let remaining = ms; remaining > 0; remaining -= MANUAL_FRAME) {
+      const slice = Math.min(MANUAL_FRAME, remaining);
+      this.manualNow += slice;
+      if (!this.paused) {
+        this.update(slice);
+      }
+    }
+  }
+
+  // Calls back every frame until it returns false; returns a cancel function
+  public onFrame(callback: FrameCallback): () => void {
+    this.frames.add(callback);
+    return () => this.frames.delete(callback);
+  }
+
+  // Runs the callback after delayMS (repeatedly if `repeat`); replaces a timer of the same name
+  public setTimer(name: string, delayMS: number, callback: () => void, repeat: boolean = false): void {
+    this.timers.set(name, { dueAt: this.time + delayMS, interval: repeat ? delayMS : null, callback });
+  }
+
+  public clearTimer(name: string): void {
+    this.timers.delete(name);
+  }
+
+  public hasTimer(name: string): boolean {
+    return this.timers.has(name);
+  }
+
+  // One-shot timer that nothing needs to refer to by name
+  public after(delayMS: number, callback: () => void): () => void {
+    const name = `#${++this.anonymousTimers}`;
+    this.setTimer(name, delayMS, callback);
+    return () => this.clearTimer(name);
+  }
+
+  // Calls back once per stepMS of scheduler time, however the frames fall
+  public addFixedStep(name: string, stepMS: number, callback: (stepMS: number) => void): void {
+    this.fixedSteps.set(name, { stepMS, accumulated: 0, callback });
+  }
+
+  public removeFixedStep(name: string): void {
+    this.fixedSteps.delete(name);
+  }
+
+  // Called with the length of every pause once it ends
+  public onResume(listener: (pausedMS: number) => void): void {
+    this.resumeListeners.push(listener);
+  }
+
+  private setPaused(paused: boolean): void {
+    if (paused === this.paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.pausedAt = this.now();
+      console.log('⏸️ Scheduler paused (page hidden)');
+      return;
+    }
+    const pausedMS = this.pausedAt === null ? 0 : this.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.lastFrameAt = null;
+    console.log(`▶️ Scheduler resumed after ${Math.round(pausedMS / 1000)}s`);
+    this.notifyResume(pausedMS);
+  }
+
+  private notifyResume(pausedMS: number): void {
+    this.resumeListeners.forEach(listener => listener(pausedMS));
+  }
+
+  private tick(): void {
+    if (this.paused) return;
+    const now = this.now();
+    const elapsed = this.lastFrameAt === null ? 0 : now - this.lastFrameAt;
+    this.lastFrameAt = now;
+    if (elapsed > MAX_FRAME_GAP) {
+      this.notifyResume(elapsed);
+      return;
+    }
+    this.update(elapsed);
+  }
+
+  private now(): number {
+    return this.manual ? this.manualNow : performance.now();
+  }
+
+  private update(deltaMS: number): void {
+    this.time += deltaMS;
+
+    // Simulation first, so timers and frames see this frame's state
+    this.fixedSteps.forEach((step, name) => {
+      step.accumulated += deltaMS;
+      while (step.accumulated >= step.stepMS) {
+        step.accumulated -= step.stepMS;
+        this.run(`fixed step "${name}"`, () => step.callback(step.stepMS));
+      }
+    });
+
+    [...this.timers.entries()]
+      .filter(([, timer]) => timer.dueAt <= this.time)
+      .sort(([, a], [, b]) => a.dueAt - b.dueAt)
+      .forEach(([name, timer]) => {
+        // Cleared or replaced by an earlier callback this frame
+        if (this.timers.get(name) !== timer) return;
+        if (timer.interval === null) {
+          this.timers.delete(name);
+        } else {
+          // A timer that fell behind skips the missed runs instead of firing every frame
+          timer.dueAt += timer.interval;
+          if (timer.dueAt <= this.time) timer.dueAt = this.time + timer.interval;
+        }
+        this.run(`timer "${name}"`, timer.callback);
+      });
+
+    [...this.frames].forEach(callback => {
+      if (!this.frames.has(callback)) return;
+      // A frame callback that throws is dropped rather than failing every frame
+      const keep = this.run('frame callback', () => callback(deltaMS), false);
+      if (keep === false) {
+        this.frames.delete(callback);
+      }
+    });
+  }
+
+  // One failing callback must not stop the others from running
+  private run<T>(label: string, callback: () => T, fallback?: T): T | undefined {
+    try {
+      return callback();
+    } catch (error) {
+      console.error(`❌ Scheduler ${label} failed:`, error);
+      return fallback;
+    }
+  }
+}
+
+// Export singleton instance
+export const scheduler = Scheduler.getInstance();
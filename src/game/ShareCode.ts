@@ -0,0 +1,102 @@
+import { configLoader } from '@/config/ConfigLoader';
+import { SaveFormatError } from './SaveFormat';
+
+/**
+ * Share codes: the discovered-element set packed into a short URL-safe string,
+ * for links like `https://…/#save=<code>`.
+ *
+ * Hex IDs are sorted numerically and stored as the gaps between them, each as
+ * a varint (7 bits per byte, high bit = more bytes follow). Discovered IDs sit
+ * close together once sorted, so most gaps fit in one byte. The bytes are then
+ * base64url-encoded without padding. The first byte is the code format version.
+ */
+
+const SHARE_CODE_VERSION = 1;
+export const SHARE_CODE_PARAM = 'save';
+
+export function encodeShareCode(hexIds: string[]): string {
+  const values = Array.from(new Set(hexIds.map(id => parseInt(id, 16))))
+    .filter(value => !isNaN(value))
+    .sort((a, b) => a - b);
+
+  const bytes: number[] = [SHARE_CODE_VERSION];
+  let previous = 0;
+  values.forEach(value => {
+    writeVarint(bytes, value - previous);
+    previous = value;
+  });
+
+  return toBase64Url(bytes);
+}
+
+/**
+ * Returns the hex IDs in a share code. IDs this version of the game does not
+ * know are dropped; a code that cannot be read at all throws SaveFormatError.
+ */
+export function decodeShareCode(code: string): string[] {
+  const bytes = fromBase64Url(code.trim());
+  if (bytes.length === 0 || bytes[0] !== SHARE_CODE_VERSION) {
+    throw new SaveFormatError('Unsupported share code');
+  }
+
+  const ids: string[] = [];
+  let value = 0;
+  let offset = 1;
+  while (offset < bytes.length) {
+    const [gap, next] = readVarint(bytes, offset);
+    value += gap;
+    offset = next;
+
+    const hexId = value.toString(16).toUpperCase();
+    if (configLoader.getElementById(hexId)) {
+      ids.push(hexId);
+    } else {
+      console.warn(`⚠️ Share code contains unknown element ${hexId}, skipping`);
+    }
+  }
+  return ids;
+}
+
+// Reads `#save=<code>` from a URL fragment
+export function getShareCodeFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_CODE_PARAM);
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    value |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return [value, offset];
+    }
+    shift += 7;
+    if (shift > 28) break;
+  }
+  throw new SaveFormatError('Share code is truncated or corrupted');
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  } catch {
+    throw new SaveFormatError('Share code is not valid');
+  }
+}
@@ -0,0 +1,62 @@
+import { configLoader, Upgrade, UpgradeEffect } from '@/config/ConfigLoader';
+
+/**
+ * Essence shop. Upgrade definitions (costs, curves, limits) come from
+ * upgrades.tsv via the compiled config; this only tracks the levels bought.
+ * Levels belong to the current run: resets and transmutations clear them.
+ */
+
+// Upgrade ID -> levels bought
+export type UpgradeLevels = Record<string, number>;
+
+export class UpgradeManager {
+  private levels: UpgradeLevels = {};
+
+  public getLevels(): UpgradeLevels {
+    return { ...this.levels };
+  }
+
+  // Levels of upgrades no longer in the config are dropped
+  public loadLevels(levels: UpgradeLevels): void {
+    const known = new Set(configLoader.getUpgrades().map(upgrade => upgrade.id));
+    this.levels = {};
+    Object.entries(levels).forEach(([id, level]) => {
+      if (known.has(id) && level > 0) {
+        this.levels[id] = level;
+      }
+    });
+  }
+
+  public reset(): void {
+    this.levels = {};
+  }
+
+  public getUpgrades(): Upgrade[] {
+    return configLoader.getUpgrades();
+  }
+
+  public getLevel(id: string): number {
+    return this.levels[id] ?? 0;
+  }
+
+  public getCost(upgrade: Upgrade): number {
+    return Math.floor(upgrade.baseCost * Math.pow(upgrade.costGrowth, this.getLevel(upgrade.id)));
+  }
+
+  public isMaxed(upgrade: Upgrade): boolean {
+    return upgrade.maxLevel !== null && this.getLevel(upgrade.id) >= upgrade.maxLevel;
+  }
+
+  // Total bonus from every upgrade with this effect
+  public getEffect(effect: UpgradeEffect): number {
+    return this.getUpgrades()
+      .filter(upgrade => upgrade.effect === effect)
+      .reduce((total, upgrade) => total + upgrade.value * this.getLevel(upgrade.id), 0);
+  }
+
+  // Records a purchase; the caller has already spent the cost
+  public addLevel(upgrade: Upgrade): void {
+    this.levels[upgrade.id] = this.getLevel(upgrade.id) + 1;
+    console.log(`🛒 Bought ${upgrade.id} level ${this.levels[upgrade.id]}`);
+  }
+}
@@ -2,6 +2,10 @@ import { Game } from '@/game/Game';
 import { UI } from '@/ui/UI';
 import { configLoader } from '@/config/ConfigLoader';
 import { i18n } from '@/i18n/Translation';
+import { storage } from '@/storage/StorageService';
+import { tabSync } from '@/storage/TabSync';
+import { createStorageBackend, StorageBackendType } from '@/storage/StorageBackend';
+import { scheduler } from '@/game/Scheduler';
 
 class IdleAlchemy {
   private game: Game | null = null;
@@ -63,6 +67,16 @@ class IdleAlchemy {
       await configLoader.loadConfig();
       console.log('✅ Configuration loaded successfully');
       
+      // Open persistent storage (?storage=memory|indexeddb overrides the localStorage default)
+      const backendType = new URLSearchParams(window.location.search).get('storage') || 'local';
+      await storage.initialize(createStorageBackend(backendType as StorageBackendType));
+      console.log('✅ Storage initialized successfully');
+      
+      // ?clock=manual stops game time until tests advance it with window.scheduler.advance(ms)
+      if (new URLSearchParams(window.location.search).get('clock') === 'manual') {
+        scheduler.setManual(true);
+      }
+      
       // Clear loading message
       gameContainer.innerHTML = '';
       
@@ -80,11 +94,11 @@ class IdleAlchemy {
       
       // Trigger UI update after both game and UI are ready (fixes page refresh bug)
       // This ensures the discovery panel shows loaded elements
-      setTimeout(() => {
+      scheduler.after(100, () => {
         if (this.game) {
           this.game.refreshUI();
         }
-      }, 100);
+      });
       
       console.log('🧪 Idle Alchemy initialized successfully!');
       
@@ -92,8 +106,12 @@ class IdleAlchemy {
       if (typeof window !== 'undefined') {
         (window as any).game = this.game;
         (window as any).config = configLoader;
+        (window as any).storage = storage;
+        (window as any).tabSync = tabSync;
+        (window as any).scheduler = scheduler;
         console.log('💡 Development tip: Access the game instance via window.game');
         console.log('💡 Development tip: Access the config loader via window.config');
+        console.log('💡 Development tip: Access the storage service via window.storage');
       }
       
     } catch (error) {
@@ -151,7 +169,8 @@ new IdleAlchemy();
 
 // Handle page unload
 window.addEventListener('beforeunload', () => {
-  // Game saves automatically, but we can add any cleanup here if needed
+  // Game saves on every change; write out anything still waiting in the storage batch
+  storage.flush();
 });
 
 // Add some fun to the console
@@ -0,0 +1,113 @@
+import { storage, DEFAULT_PROFILE_ID } from './StorageService';
+
+export interface ProfileInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * Named player profiles. Each profile has its own save, discovery order and
+ * preferences; StorageService scopes those keys to the active profile.
+ */
+export class ProfileManager {
+  private static instance: ProfileManager;
+
+  private constructor() {}
+
+  public static getInstance(): ProfileManager {
+    if (!ProfileManager.instance) {
+      ProfileManager.instance = new ProfileManager();
+    }
+    return ProfileManager.instance;
+  }
+
+  public getProfiles(): ProfileInfo[] {
+    const profiles = storage.getGlobal('profiles') || [];
+
+    // The active profile always exists, even on first run or if the list was lost
+    const activeId = storage.getActiveProfileId();
+    if (!profiles.some(profile => profile.id === activeId)) {
+      const name = activeId === DEFAULT_PROFILE_ID ? 'Player 1' : `Player ${profiles.length + 1}`;
+      profiles.unshift({ id: activeId, name, createdAt: new Date().toISOString() });
+      storage.setGlobal('profiles', profiles);
+    }
+    return profiles;
+  }
+
+  public getActiveProfile(): ProfileInfo {
+    const activeId = storage.getActiveProfileId();
+    return this.getProfiles().find(profile => profile.id === activeId)!;
+  }
+
+  public createProfile(name: string): ProfileInfo {
+    const profile: ProfileInfo = {
+      id: this.generateId(),
+      name: this.validateName(name),
+      createdAt: new Date().toISOString()
+    };
+    storage.setGlobal('profiles', [...this.getProfiles(), profile]);
+    console.log(`👤 Created profile "${profile.name}" (${profile.id})`);
+    return profile;
+  }
+
+  public renameProfile(profileId: string, name: string): void {
+    const validName = this.validateName(name);
+    const profiles = this.getProfiles().map(profile =>
+      profile.id === profileId ? { ...profile, name: validName } : profile
+    );
+    storage.setGlobal('profiles', profiles);
+  }
+
+  public duplicateProfile(profileId: string, name: string): ProfileInfo {
+    this.requireProfile(profileId);
+    const copy = this.createProfile(name);
+    storage.copyProfileData(profileId, copy.id);
+    return copy;
+  }
+
+  public deleteProfile(profileId: string): void {
+    this.requireProfile(profileId);
+    if (profileId === storage.getActiveProfileId()) {
+      throw new Error('Cannot delete the active profile. Switch to another profile first.');
+    }
+
+    storage.deleteProfileData(profileId);
+    storage.setGlobal('profiles', this.getProfiles().filter(profile => profile.id !== profileId));
+    console.log(`👤 Deleted profile ${profileId}`);
+  }
+
+  /**
+   * Marks a profile as active and writes it out. The current page keeps using
+   * the old profile until it is reloaded, so anything saved during unload still
+   * goes to the profile it belongs to.
+   */
+  public async switchProfile(profileId: string): Promise<void> {
+    this.requireProfile(profileId);
+    storage.setGlobal('activeProfile', profileId);
+    await storage.flush();
+  }
+
+  private requireProfile(profileId: string): ProfileInfo {
+    const profile = this.getProfiles().find(p => p.id === profileId);
+    if (!profile) {
+      throw new Error(`Profile '${profileId}' not found`);
+    }
+    return profile;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name cannot be empty');
+    }
+    return trimmed.slice(0, 40);
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+  }
+}
+
+// Export singleton instance
+export const profileManager = ProfileManager.getInstance();
@@ -0,0 +1,163 @@
+/**
+ * Key/value backends for StorageService.
+ *
+ * Backends only deal with string values and full keys. They are read once at
+ * startup (loadAll) and afterwards only receive batched writes, so a slow or
+ * async backend such as IndexedDB never blocks gameplay.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  loadAll(prefix: string): Promise<Record<string, string>>;
+  // A null value deletes the key
+  writeBatch(changes: Map<string, string | null>): Promise<void>;
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  public readonly name = 'localStorage';
+
+  public static isAvailable(): boolean {
+    try {
+      const probe = '__idle-alchemy-probe__';
+      window.localStorage.setItem(probe, probe);
+      window.localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async loadAll(prefix: string): Promise<Record<string, string>> {
+    const result: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        result[key] = localStorage.getItem(key)!;
+      }
+    }
+    return result;
+  }
+
+  public async writeBatch(changes: Map<string, string | null>): Promise<void> {
+    changes.forEach((value, key) => {
+      if (value === null) {
+        localStorage.removeItem(key);
+      } else {
+        localStorage.setItem(key, value);
+      }
+    });
+  }
+}
+
+export class IndexedDBBackend implements StorageBackend {
+  public readonly name = 'indexedDB';
+  private static readonly DB_NAME = 'idle-alchemy';
+  private static readonly STORE_NAME = 'kv';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async loadAll(prefix: string): Promise<Record<string, string>> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const result: Record<string, string> = {};
+      const store = db.transaction(IndexedDBBackend.STORE_NAME, 'readonly').objectStore(IndexedDBBackend.STORE_NAME);
+      const request = store.openCursor(IDBKeyRange.bound(prefix, prefix + '\uffff'));
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          result[cursor.key as string] = cursor.value;
+          cursor.continue();
+        } else {
+          resolve(result);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async writeBatch(changes: Map<string, string | null>): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      // One transaction per batch: either every change lands or none do
+      const transaction = db.transaction(IndexedDBBackend.STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(IndexedDBBackend.STORE_NAME);
+
+      changes.forEach((value, key) => {
+        if (value === null) {
+          store.delete(key);
+        } else {
+          store.put(value, key);
+        }
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IndexedDBBackend.DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDBBackend.STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Nothing survives a reload. Used by tests (?storage=memory) and when no persistent storage is available.
+export class MemoryBackend implements StorageBackend {
+  public readonly name = 'memory';
+  private data: Map<string, string> = new Map();
+
+  public async loadAll(prefix: string): Promise<Record<string, string>> {
+    const result: Record<string, string> = {};
+    this.data.forEach((value, key) => {
+      if (key.startsWith(prefix)) {
+        result[key] = value;
+      }
+    });
+    return result;
+  }
+
+  public async writeBatch(changes: Map<string, string | null>): Promise<void> {
+    changes.forEach((value, key) => {
+      if (value === null) {
+        this.data.delete(key);
+      } else {
+        this.data.set(key, value);
+      }
+    });
+  }
+}
+
+export type StorageBackendType = 'local' | 'indexeddb' | 'memory';
+
+export function createStorageBackend(type: StorageBackendType): StorageBackend {
+  if (type === 'indexeddb' && IndexedDBBackend.isAvailable()) {
+    return new IndexedDBBackend();
+  }
+  if (type !== 'memory' && LocalStorageBackend.isAvailable()) {
+    return new LocalStorageBackend();
+  }
+  return new MemoryBackend();
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) {
+    return false;
+  }
+  // Firefox uses its own name; older browsers only set the legacy code
+  return error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22;
+}
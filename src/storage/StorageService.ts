@@ -0,0 +1,283 @@
+import { StorageBackend, MemoryBackend, isQuotaExceededError } from './StorageBackend';
+import { ProfileInfo } from './ProfileManager';
+import { SaveBackup } from '@/game/SaveBackups';
+import { AutoAlchemistSettings } from '@/game/AutoAlchemist';
+import { tabSync } from './TabSync';
+
+/**
+ * Typed, namespaced persistence for everything the game stores.
+ *
+ * All values are read from the backend once in initialize() and served from an
+ * in-memory cache, so get() is synchronous regardless of backend. set() updates
+ * the cache immediately and queues the write; queued writes are flushed together
+ * after FLUSH_DELAY, and whenever the page is hidden or unloaded.
+ *
+ * Keys in StorageSchema belong to the active player profile and are stored as
+ * `idle-alchemy:profile:<id>:<key>`. Keys in GlobalStorageSchema are shared by
+ * all profiles and stored as `idle-alchemy:<key>`. The active profile is fixed
+ * for the lifetime of the page; switching profiles reloads it.
+ *
+ * Writes are broadcast to other tabs on the same backend, which apply them to
+ * their caches and announce them with a `storageSynced` event.
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Every per-profile key and the type of its value
+export interface StorageSchema {
+  save: string;
+  discoveryOrder: string[];
+  sort: string;
+  zoom: number;
+  darkMode: boolean;
+  saveBackups: SaveBackup[];
+  autoAlchemist: AutoAlchemistSettings;
+}
+
+export type StorageKey = keyof StorageSchema;
+
+// Keys shared by all profiles
+export interface GlobalStorageSchema {
+  profiles: ProfileInfo[];
+  activeProfile: string;
+}
+
+export type GlobalStorageKey = keyof GlobalStorageSchema;
+
+type LegacyStorageKey = Exclude<StorageKey, 'saveBackups' | 'autoAlchemist'>;
+
+// Keys written by earlier versions directly to localStorage, imported once on first run
+const LEGACY_KEYS: { [K in LegacyStorageKey]: { key: string; decode: (raw: string) => StorageSchema[K] } } = {
+  save: { key: 'idle-alchemy-save', decode: raw => raw },
+  discoveryOrder: { key: 'idle-alchemy-discovery-order', decode: raw => JSON.parse(raw) },
+  sort: { key: 'idle-alchemy-sort', decode: raw => raw },
+  zoom: { key: 'idle-alchemy-zoom', decode: raw => parseInt(raw) },
+  darkMode: { key: 'idle-alchemy-dark-mode', decode: raw => raw === 'true' }
+};
+
+export class StorageService {
+  private static readonly FLUSH_DELAY = 2000; // ms
+  private backend: StorageBackend = new MemoryBackend();
+  private namespace: string = 'idle-alchemy';
+  private profileId: string = DEFAULT_PROFILE_ID;
+  // Keyed by the full key without the namespace prefix, covering every profile
+  private cache: Map<string, unknown> = new Map();
+  private pendingWrites: Map<string, string | null> = new Map();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private quotaExceeded: boolean = false;
+
+  public async initialize(backend: StorageBackend): Promise<void> {
+    this.backend = backend;
+    this.cache.clear();
+
+    const prefix = this.getPrefix();
+    const stored = await backend.loadAll(prefix);
+    Object.entries(stored).forEach(([fullKey, raw]) => {
+      try {
+        this.cache.set(fullKey.slice(prefix.length), JSON.parse(raw));
+      } catch (error) {
+        console.warn(`⚠️ Ignoring unreadable stored value for ${fullKey}:`, error);
+      }
+    });
+
+    this.profileId = this.getGlobal('activeProfile') || DEFAULT_PROFILE_ID;
+
+    // Memory storage is used for isolated sessions, which must not pick up real player data
+    if (backend.name !== 'memory') {
+      await this.importLegacyKeys();
+      tabSync.onMessage(message => {
+        if (message.type === 'write') {
+          this.applyRemoteWrite(message.key, message.value);
+        }
+      });
+      tabSync.connect(`${this.namespace}:${backend.name}`);
+    }
+
+    window.addEventListener('pagehide', () => this.flush());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flush();
+      }
+    });
+
+    console.log(`💾 Storage ready (${backend.name}, ${this.cache.size} keys)`);
+  }
+
+  public get<K extends StorageKey>(key: K): StorageSchema[K] | undefined {
+    return this.cache.get(this.profileKey(this.profileId, key)) as StorageSchema[K] | undefined;
+  }
+
+  public set<K extends StorageKey>(key: K, value: StorageSchema[K]): void {
+    this.write(this.profileKey(this.profileId, key), value);
+  }
+
+  public remove(key: StorageKey): void {
+    this.write(this.profileKey(this.profileId, key), undefined);
+  }
+
+  public getGlobal<K extends GlobalStorageKey>(key: K): GlobalStorageSchema[K] | undefined {
+    return this.cache.get(key) as GlobalStorageSchema[K] | undefined;
+  }
+
+  public setGlobal<K extends GlobalStorageKey>(key: K, value: GlobalStorageSchema[K]): void {
+    this.write(key, value);
+  }
+
+  public getActiveProfileId(): string {
+    return this.profileId;
+  }
+
+  public copyProfileData(fromProfileId: string, toProfileId: string): void {
+    const fromPrefix = this.profileKey(fromProfileId, '');
+    Array.from(this.cache.entries()).forEach(([key, value]) => {
+      if (key.startsWith(fromPrefix)) {
+        // Deep copy so the two profiles never share mutable values in the cache
+        this.write(this.profileKey(toProfileId, key.slice(fromPrefix.length)), JSON.parse(JSON.stringify(value)));
+      }
+    });
+  }
+
+  public deleteProfileData(profileId: string): void {
+    const prefix = this.profileKey(profileId, '');
+    Array.from(this.cache.keys()).forEach(key => {
+      if (key.startsWith(prefix)) {
+        this.write(key, undefined);
+      }
+    });
+  }
+
+  public getBackendName(): string {
+    return this.backend.name;
+  }
+
+  public isQuotaExceeded(): boolean {
+    return this.quotaExceeded;
+  }
+
+  public async flush(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pendingWrites.size === 0) return;
+
+    const batch = this.pendingWrites;
+    this.pendingWrites = new Map();
+
+    try {
+      await this.backend.writeBatch(batch);
+      this.setQuotaExceeded(false);
+    } catch (error) {
+      // Put the batch back unless a newer value was queued for the same key meanwhile
+      batch.forEach((value, fullKey) => {
+        if (!this.pendingWrites.has(fullKey)) {
+          this.pendingWrites.set(fullKey, value);
+        }
+      });
+
+      if (isQuotaExceededError(error)) {
+        console.error('❌ Storage quota exceeded, progress is not being saved');
+        this.setQuotaExceeded(true);
+      } else {
+        console.error('❌ Failed to write to storage:', error);
+      }
+    }
+  }
+
+  // undefined removes the key
+  private write(key: string, value: unknown): void {
+    const raw = value === undefined ? null : JSON.stringify(value);
+    if (value === undefined) {
+      this.cache.delete(key);
+    } else {
+      this.cache.set(key, value);
+    }
+    this.queueWrite(key, raw);
+    tabSync.post({ type: 'write', tabId: tabSync.tabId, key, value: raw });
+  }
+
+  // Another tab wrote this key and persists it itself; only the cache needs updating
+  private applyRemoteWrite(key: string, raw: string | null): void {
+    try {
+      if (raw === null) {
+        this.cache.delete(key);
+      } else {
+        this.cache.set(key, JSON.parse(raw));
+      }
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable value for ${key} from another tab:`, error);
+      return;
+    }
+    // The other tab's value is newer than anything still queued here
+    this.pendingWrites.delete(this.getPrefix() + key);
+
+    const profilePrefix = this.profileKey(this.profileId, '');
+    const isGlobal = !key.startsWith('profile:');
+    if (!isGlobal && !key.startsWith(profilePrefix)) return;
+
+    window.dispatchEvent(new CustomEvent('storageSynced', {
+      detail: { key: isGlobal ? key : key.slice(profilePrefix.length), global: isGlobal }
+    }));
+  }
+
+  private queueWrite(key: string, value: string | null): void {
+    this.pendingWrites.set(this.getPrefix() + key, value);
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => this.flush(), StorageService.FLUSH_DELAY);
+    }
+  }
+
+  private setQuotaExceeded(exceeded: boolean): void {
+    if (exceeded === this.quotaExceeded) return;
+    this.quotaExceeded = exceeded;
+
+    // Only fired when the state flips, so the UI warns once rather than on every write
+    window.dispatchEvent(new CustomEvent(exceeded ? 'storageQuotaExceeded' : 'storageQuotaRecovered', {
+      detail: { backend: this.backend.name }
+    }));
+  }
+
+  private async importLegacyKeys(): Promise<void> {
+    const imported: string[] = [];
+
+    try {
+      (Object.keys(LEGACY_KEYS) as LegacyStorageKey[]).forEach(key => {
+        const legacy = LEGACY_KEYS[key];
+        const raw = localStorage.getItem(legacy.key);
+        if (raw === null) return;
+
+        if (this.get(key) === undefined) {
+          try {
+            this.set(key, legacy.decode(raw));
+          } catch (error) {
+            console.warn(`⚠️ Could not import legacy ${legacy.key}:`, error);
+          }
+        }
+        imported.push(legacy.key);
+      });
+    } catch {
+      // localStorage not accessible: nothing to import
+      return;
+    }
+
+    if (imported.length === 0) return;
+
+    // Only drop the old keys once their values are safely written under the new names
+    await this.flush();
+    if (this.pendingWrites.size === 0) {
+      imported.forEach(key => localStorage.removeItem(key));
+      console.log(`💾 Imported legacy storage keys: ${imported.join(', ')}`);
+    }
+  }
+
+  private profileKey(profileId: string, key: string): string {
+    return `profile:${profileId}:${key}`;
+  }
+
+  private getPrefix(): string {
+    return `${this.namespace}:`;
+  }
+}
+
+// Export singleton instance
+export const storage = new StorageService();
@@ -0,0 +1,116 @@
+/**
+ * Coordination between tabs running the game on the same storage.
+ *
+ * StorageService broadcasts every write so the other tabs keep their caches
+ * current, and the game merges what they discovered. Canvas layouts cannot be
+ * merged, so exactly one tab owns canvas saves: the one the player last focused.
+ * The others keep saving progress but carry the owner's layout along unchanged.
+ */
+
+export type TabMessage =
+  | { type: 'write'; tabId: string; key: string; value: string | null }
+  | { type: 'claimCanvas'; tabId: string; claimedAt: number }
+  | { type: 'releaseCanvas'; tabId: string }
+  | { type: 'progressReplaced'; tabId: string; profileId: string };
+
+type MessageHandler = (message: TabMessage) => void;
+
+export class TabSync {
+  private static instance: TabSync;
+  public readonly tabId: string = Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+  private channel: BroadcastChannel | null = null;
+  private handlers: MessageHandler[] = [];
+  private canvasOwner: boolean = true;
+  private claimedAt: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): TabSync {
+    if (!TabSync.instance) {
+      TabSync.instance = new TabSync();
+    }
+    return TabSync.instance;
+  }
+
+  /**
+   * Joins the channel shared by tabs on the same storage. Without
+   * BroadcastChannel every tab behaves as if it were the only one.
+   */
+  public connect(channelName: string): void {
+    if (this.channel || typeof BroadcastChannel === 'undefined') return;
+
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.receive(event.data);
+
+    // The tab the player is looking at owns the canvas
+    this.canvasOwner = false;
+    if (document.visibilityState === 'visible') {
+      this.claimCanvas();
+    }
+    window.addEventListener('focus', () => this.claimCanvas());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        this.claimCanvas();
+      }
+    });
+    window.addEventListener('pagehide', () => {
+      if (this.canvasOwner) {
+        this.post({ type: 'releaseCanvas', tabId: this.tabId });
+      }
+    });
+
+    console.log(`🔗 Tab sync connected (${this.tabId})`);
+  }
+
+  public isConnected(): boolean {
+    return this.channel !== null;
+  }
+
+  public isCanvasOwner(): boolean {
+    return this.canvasOwner;
+  }
+
+  public claimCanvas(): void {
+    if (!this.channel || this.canvasOwner) return;
+
+    this.claimedAt = Date.now();
+    this.setCanvasOwner(true);
+    this.post({ type: 'claimCanvas', tabId: this.tabId, claimedAt: this.claimedAt });
+  }
+
+  public onMessage(handler: MessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  public post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private receive(message: TabMessage): void {
+    if (message.type === 'claimCanvas') {
+      // Claims sent at the same moment are settled by tab id, so both tabs agree
+      const newer = message.claimedAt > this.claimedAt ||
+        (message.claimedAt === this.claimedAt && message.tabId > this.tabId);
+      if (this.canvasOwner && newer) {
+        this.setCanvasOwner(false);
+      }
+    } else if (message.type === 'releaseCanvas' && document.visibilityState === 'visible') {
+      // The owner closed: a tab still on screen takes over
+      this.claimCanvas();
+    }
+
+    this.handlers.forEach(handler => handler(message));
+  }
+
+  private setCanvasOwner(owner: boolean): void {
+    if (owner === this.canvasOwner) return;
+    this.canvasOwner = owner;
+
+    window.dispatchEvent(new CustomEvent('canvasOwnershipChanged', {
+      detail: { owner }
+    }));
+  }
+}
+
+// Export singleton instance
+export const tabSync = TabSync.getInstance();
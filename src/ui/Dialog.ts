@@ -4,12 +4,17 @@ export interface DialogOptions {
   confirmText?: string;
   cancelText?: string;
   type?: 'confirm' | 'warning' | 'info';
+  showCancel?: boolean; // default true; false for acknowledgement-only dialogs
+  content?: HTMLElement; // extra interactive content rendered below the message
+  input?: { value?: string; placeholder?: string; maxLength?: number };
 }
 
 export class Dialog {
   private static instance: Dialog | null = null;
   private overlay: HTMLElement | null = null;
   private dialog: HTMLElement | null = null;
+  // Cancels the open dialog; used when another dialog replaces it so its promise still settles
+  private dismissCurrent: (() => void) | null = null;
 
   private constructor() {
     this.addStyles();
@@ -28,8 +33,19 @@ export class Dialog {
     });
   }
 
-  private createDialog(options: DialogOptions, resolve: (value: boolean) => void): void {
-    // Remove any existing dialog
+  public async prompt(options: DialogOptions): Promise<string | null> {
+    return new Promise((resolve) => {
+      this.createDialog({ ...options, input: options.input || {} }, (confirmed, inputValue) => {
+        resolve(confirmed ? inputValue ?? '' : null);
+      });
+    });
+  }
+
+  private createDialog(options: DialogOptions, resolve: (value: boolean, inputValue?: string) => void): void {
+    // Remove any existing dialog (it resolves as cancelled)
+    if (this.dismissCurrent) {
+      this.dismissCurrent();
+    }
     this.remove();
 
     // Create overlay
@@ -49,27 +65,47 @@ export class Dialog {
         <p class="dialog-message">${options.message}</p>
       </div>
       <div class="dialog-actions">
+        ${options.showCancel === false ? '' : `
         <button class="dialog-btn dialog-btn-cancel" data-action="cancel">
           ${options.cancelText || 'Cancel'}
-        </button>
+        </button>`}
         <button class="dialog-btn dialog-btn-confirm ${options.type === 'warning' ? 'dialog-btn-warning' : 'dialog-btn-primary'}" data-action="confirm">
           ${options.confirmText || 'Confirm'}
         </button>
       </div>
     `;
 
+    const body = this.dialog.querySelector('.dialog-body') as HTMLElement;
+    if (options.content) {
+      body.appendChild(options.content);
+    }
+
+    let input: HTMLInputElement | null = null;
+    if (options.input) {
+      input = document.createElement('input');
+      input.type = 'text';
+      input.className = 'dialog-input';
+      input.value = options.input.value || '';
+      input.placeholder = options.input.placeholder || '';
+      input.maxLength = options.input.maxLength || 40;
+      body.appendChild(input);
+    }
+
     // Add event listeners
-    const cancelBtn = this.dialog.querySelector('[data-action="cancel"]') as HTMLButtonElement;
+    const cancelBtn = this.dialog.querySelector('[data-action="cancel"]') as HTMLButtonElement | null;
     const confirmBtn = this.dialog.querySelector('[data-action="confirm"]') as HTMLButtonElement;
 
     const handleCancel = () => {
+      this.dismissCurrent = null;
       this.remove();
       resolve(false);
     };
 
     const handleConfirm = () => {
+      const inputValue = input?.value.trim();
+      this.dismissCurrent = null;
       this.remove();
-      resolve(true);
+      resolve(true, inputValue);
     };
 
     const handleEscape = (e: KeyboardEvent) => {
@@ -78,7 +114,14 @@ export class Dialog {
       }
     };
 
-    cancelBtn.addEventListener('click', handleCancel);
+    input?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        handleConfirm();
+      }
+    });
+    this.dismissCurrent = handleCancel;
+
+    cancelBtn?.addEventListener('click', handleCancel);
     confirmBtn.addEventListener('click', handleConfirm);
     this.overlay.addEventListener('click', (e) => {
       if (e.target === this.overlay) {
@@ -96,9 +139,14 @@ export class Dialog {
     this.overlay.appendChild(this.dialog);
     document.body.appendChild(this.overlay);
 
-    // Focus the confirm button
+    // Focus the input if there is one, otherwise the confirm button
     setTimeout(() => {
-      confirmBtn.focus();
+      if (input) {
+        input.focus();
+        input.select();
+      } else {
+        confirmBtn.focus();
+      }
     }, 100);
 
     // Animate in
@@ -115,13 +163,15 @@ export class Dialog {
     }
 
     if (this.overlay) {
-      this.overlay.classList.remove('dialog-visible');
+      // Keep a local reference: a new dialog may be opened before the fade-out finishes
+      const overlay = this.overlay;
+      this.overlay = null;
+      this.dialog = null;
+      overlay.classList.remove('dialog-visible');
       setTimeout(() => {
-        if (this.overlay && this.overlay.parentNode) {
-          this.overlay.parentNode.removeChild(this.overlay);
+        if (overlay.parentNode) {
+          overlay.parentNode.removeChild(overlay);
         }
-        this.overlay = null;
-        this.dialog = null;
       }, 200);
     }
   }
@@ -209,6 +259,30 @@ export class Dialog {
         color: #cbd5e1;
       }
 
+      .dialog-input {
+        width: 100%;
+        margin-top: 12px;
+        padding: 8px 12px;
+        font-size: 14px;
+        border: 1px solid #cbd5e1;
+        border-radius: 6px;
+        background: white;
+        color: #0f172a;
+        box-sizing: border-box;
+        font-family: system-ui, -apple-system, sans-serif;
+      }
+
+      .dialog-input:focus {
+        outline: none;
+        border-color: #3b82f6;
+      }
+
+      .dark .dialog-input {
+        border-color: #475569;
+        background: #334155;
+        color: #f1f5f9;
+      }
+
       .dialog-actions {
         display: flex;
         gap: 12px;
@@ -304,4 +378,10 @@ export class Dialog {
 export async function showConfirm(options: DialogOptions): Promise<boolean> {
   const dialog = Dialog.getInstance();
   return dialog.show(options);
+}
+
+// Resolves with the trimmed input text, or null if cancelled
+export async function showPrompt(options: DialogOptions): Promise<string | null> {
+  const dialog = Dialog.getInstance();
+  return dialog.prompt(options);
 } 
\ No newline at end of file
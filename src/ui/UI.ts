@@ -1,7 +1,20 @@
 import { Game } from '@/game/Game';
-import { showConfirm } from '@/ui/Dialog';
+import { showConfirm, showPrompt } from '@/ui/Dialog';
 import { configLoader } from '@/config/ConfigLoader';
 import { i18n, t } from '@/i18n/Translation';
+import { createExportFile, parseExportFile, ExportBundle } from '@/game/SaveExport';
+import { parseSave } from '@/game/SaveFormat';
+import { getBackups, SaveBackup } from '@/game/SaveBackups';
+import { journalToCsv, journalToJson } from '@/game/DiscoveryJournal';
+import { formatEssence } from '@/game/EssenceManager';
+import { OfflineReport, MAX_OFFLINE_DURATION, formatDuration } from '@/game/OfflineProgress';
+import { PRESTIGE_BONUSES, PrestigeBonusId } from '@/game/PrestigeManager';
+import { AUTO_ALCHEMIST_INTERVALS, AutoAlchemistLogEntry } from '@/game/AutoAlchemist';
+import { Quest } from '@/game/QuestManager';
+import { scheduler } from '@/game/Scheduler';
+import { encodeShareCode, decodeShareCode, getShareCodeFromHash, SHARE_CODE_PARAM } from '@/game/ShareCode';
+import { storage } from '@/storage/StorageService';
+import { profileManager, ProfileInfo } from '@/storage/ProfileManager';
 
 export class UI {
   private game: Game;
@@ -18,7 +31,7 @@ export class UI {
     // Set up dark mode class
     this.setupDarkModeClass();
     
-    // Initialize discovery order from localStorage
+    // Initialize discovery order from storage
     this.loadDiscoveryOrder();
     
     this.createUI();
@@ -27,6 +40,20 @@ export class UI {
     // Check if help should be shown based on progress
     this.hideInstructionsIfNeeded();
     
+    // Offer progress from a shared link first; it replaces a save that failed to load
+    this.loadShareCodeFromUrl().then(() => {
+      // Tell the player if their save was rejected (e.g. written by a newer version)
+      this.showLoadErrorIfNeeded();
+      
+      const offlineReport = this.game.takeOfflineReport();
+      if (offlineReport && !this.game.getLoadError()) {
+        this.showOfflineReport(offlineReport);
+      }
+    });
+    window.addEventListener('hashchange', () => {
+      this.loadShareCodeFromUrl();
+    });
+    
     // Listen for language changes
     window.addEventListener('languageChanged', () => {
       this.refreshUI();
@@ -34,18 +61,25 @@ export class UI {
   }
   
   private loadDiscoveryOrder(): void {
-    const saved = localStorage.getItem('idle-alchemy-discovery-order');
-    if (saved) {
-      try {
-        this.discoveryOrder = JSON.parse(saved);
-      } catch (e) {
-        this.discoveryOrder = [];
-      }
-    }
+    const saved = storage.get('discoveryOrder');
+    this.discoveryOrder = Array.isArray(saved) ? saved : [];
   }
   
   private saveDiscoveryOrder(): void {
-    localStorage.setItem('idle-alchemy-discovery-order', JSON.stringify(this.discoveryOrder));
+    storage.set('discoveryOrder', this.discoveryOrder);
+  }
+  
+  // Adopt the order saved by another tab, keeping anything only this tab has seen at the end
+  private mergeDiscoveryOrder(): void {
+    const saved = storage.get('discoveryOrder');
+    const remote = Array.isArray(saved) ? saved : [];
+    const localOnly = this.discoveryOrder.filter(id => !remote.includes(id));
+    
+    this.discoveryOrder = [...remote, ...localOnly];
+    if (localOnly.length > 0) {
+      this.saveDiscoveryOrder();
+    }
+    this.updateElementGrid();
   }
   
   private addToDiscoveryOrder(elementId: string): void {
@@ -63,9 +97,27 @@ export class UI {
         <div class="panel-header">
           <!-- System Controls -->
           <div class="control-row">
+            <button class="control-btn" id="profile-switcher" title="Profiles">
+              <span class="material-symbols-outlined">group</span>
+            </button>
+            <button class="control-btn" id="backups-action" title="Backups">
+              <span class="material-symbols-outlined">history</span>
+            </button>
             <button class="control-btn" id="reset-action" title="Reset Game">
               <span class="material-symbols-outlined">restart_alt</span>
             </button>
+            <button class="control-btn" id="transmute-action" title="Transmute">
+              <span class="material-symbols-outlined">auto_awesome</span>
+            </button>
+            <button class="control-btn" id="shop-action" title="Shop">
+              <span class="material-symbols-outlined">storefront</span>
+            </button>
+            <button class="control-btn" id="hint-action" title="Hint">
+              <span class="material-symbols-outlined">lightbulb</span>
+            </button>
+            <button class="control-btn" id="auto-alchemist-action" title="Auto-Alchemist">
+              <span class="material-symbols-outlined">smart_toy</span>
+            </button>
             <button class="control-btn" id="zoom-out" title="Zoom Out Canvas">
               <span class="material-symbols-outlined">zoom_out</span>
             </button>
@@ -75,14 +127,43 @@ export class UI {
             <button class="control-btn" id="dark-mode-toggle" title="Toggle Dark Mode">
               <span class="material-symbols-outlined">dark_mode</span>
             </button>
+            <button class="control-btn" id="achievements-action" title="Achievements">
+              <span class="material-symbols-outlined">emoji_events</span>
+            </button>
+            <button class="control-btn" id="journal-action" title="Discovery Journal">
+              <span class="material-symbols-outlined">menu_book</span>
+            </button>
+            <button class="control-btn" id="copy-share-code" title="Copy Share Link">
+              <span class="material-symbols-outlined">share</span>
+            </button>
+            <button class="control-btn" id="export-save" title="Export Save">
+              <span class="material-symbols-outlined">download</span>
+            </button>
+            <button class="control-btn" id="import-save" title="Import Save">
+              <span class="material-symbols-outlined">upload</span>
+            </button>
+            <input type="file" id="import-save-file" accept="application/json,.json" hidden />
           </div>
           
           <!-- Title Section -->
           <div class="title-section">
             <h2 id="elements-title" class="panel-title">Elements</h2>
+            <div id="active-profile-label" class="profile-label"></div>
+            <div class="essence-display" id="essence-display">
+              <span class="essence-icon">✨</span>
+              <span class="essence-amount" id="essence-amount">0.0</span>
+              <span class="essence-label" id="essence-label">Essence</span>
+              <span class="essence-rate" id="essence-rate">+0.0/s</span>
+            </div>
             <div class="title-divider"></div>
           </div>
           
+          <!-- Panel Tabs -->
+          <div class="panel-tabs">
+            <button class="panel-tab active" id="tab-elements"></button>
+            <button class="panel-tab" id="tab-quests"></button>
+          </div>
+          
           <!-- Search & Sort Controls -->
           <div class="search-section">
             <div class="search-input-container">
@@ -104,11 +185,19 @@ export class UI {
         <div class="element-grid-container">
           <div class="element-grid" id="element-grid"></div>
         </div>
+        
+        <!-- Quest List -->
+        <div class="quest-list-container">
+          <div class="quest-list" id="quest-list"></div>
+        </div>
       </div>
       
       <!-- Game Actions -->
       <div class="game-actions pointer-events-auto" id="bottom-actions">
         <div class="action-group">
+          <button class="action-btn" id="undo-action" disabled></button>
+          <button class="action-btn" id="redo-action" disabled></button>
+          <div class="action-divider"></div>
           <button class="action-btn" id="auto-arrange-action"></button>
           <div class="action-divider"></div>
           <button class="action-btn" id="remove-duplicate-action"></button>
@@ -265,6 +354,50 @@ export class UI {
         color: #e2e8f0;
       }
       
+      .profile-label {
+        font-size: 12px;
+        color: #64748b;
+        margin: -4px 0 8px;
+      }
+      
+      .essence-display {
+        display: flex;
+        align-items: baseline;
+        justify-content: center;
+        gap: 4px;
+        margin-bottom: 8px;
+        font-size: 14px;
+        color: #7c3aed;
+        font-family: system-ui, -apple-system, sans-serif;
+      }
+      
+      .dark .essence-display {
+        color: #c4b5fd;
+      }
+      
+      .essence-amount {
+        font-weight: 600;
+        font-variant-numeric: tabular-nums;
+      }
+      
+      .essence-label {
+        font-size: 12px;
+      }
+      
+      .essence-rate {
+        font-size: 12px;
+        color: #64748b;
+        font-variant-numeric: tabular-nums;
+      }
+      
+      .dark .essence-rate {
+        color: #94a3b8;
+      }
+      
+      .dark .profile-label {
+        color: #94a3b8;
+      }
+      
       .title-divider {
         height: 1px;
         background: #cbd5e1;
@@ -395,6 +528,129 @@ export class UI {
         overflow-y: auto;
       }
       
+      /* Panel Tabs */
+      .panel-tabs {
+        display: flex;
+        gap: 4px;
+        margin-bottom: 8px;
+      }
+      
+      .panel-tab {
+        flex: 1;
+        padding: 6px 0;
+        border: 1px solid #cbd5e1;
+        border-radius: 4px;
+        background: white;
+        color: #475569;
+        font-size: 13px;
+        cursor: pointer;
+        transition: all 0.15s;
+      }
+      
+      .panel-tab.active {
+        background: #3b82f6;
+        border-color: #3b82f6;
+        color: white;
+      }
+      
+      .dark .panel-tab {
+        border-color: #475569;
+        background: #334155;
+        color: #cbd5e1;
+      }
+      
+      .dark .panel-tab.active {
+        background: #2563eb;
+        border-color: #2563eb;
+        color: white;
+      }
+      
+      /* The quests tab replaces search and the grid */
+      .quest-list-container {
+        display: none;
+        flex: 1;
+        overflow-y: auto;
+      }
+      
+      .discovery-panel.quests-active .quest-list-container {
+        display: block;
+      }
+      
+      .discovery-panel.quests-active .search-section,
+      .discovery-panel.quests-active .element-grid-container {
+        display: none;
+      }
+      
+      .quest-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 8px;
+      }
+      
+      .quest-row {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .quest-row.claimed {
+        opacity: 0.6;
+      }
+      
+      .dark .quest-row {
+        border-color: #334155;
+        color: #e2e8f0;
+      }
+      
+      .quest-meta {
+        display: flex;
+        justify-content: space-between;
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .dark .quest-meta {
+        color: #94a3b8;
+      }
+      
+      .quest-progress {
+        height: 4px;
+        border-radius: 2px;
+        background: #e2e8f0;
+        overflow: hidden;
+      }
+      
+      .dark .quest-progress {
+        background: #334155;
+      }
+      
+      .quest-progress-fill {
+        height: 100%;
+        background: #3b82f6;
+      }
+      
+      .quest-claim-btn {
+        align-self: flex-end;
+        padding: 4px 10px;
+        border: none;
+        border-radius: 4px;
+        background: #10b981;
+        color: white;
+        font-size: 12px;
+        cursor: pointer;
+      }
+      
+      .quest-claim-btn:disabled {
+        background: #94a3b8;
+        cursor: default;
+      }
+      
       .element-grid {
         display: flex;
         flex-wrap: wrap;
@@ -447,6 +703,27 @@ export class UI {
         border-color: #3b82f6;
       }
       
+      .element-count {
+        min-width: 18px;
+        padding: 0 5px;
+        border-radius: 9px;
+        background: #e2e8f0;
+        color: #334155;
+        font-size: 11px;
+        font-weight: 600;
+        line-height: 18px;
+        text-align: center;
+      }
+      
+      .dark .element-count {
+        background: #334155;
+        color: #e2e8f0;
+      }
+      
+      .element-card.out-of-stock {
+        opacity: 0.5;
+      }
+      
       .element-emoji {
         font-size: 18px;
         line-height: 1;
@@ -508,6 +785,15 @@ export class UI {
         color: #f1f5f9;
       }
       
+      .action-btn:disabled {
+        color: #cbd5e1;
+        cursor: default;
+      }
+      
+      .dark .action-btn:disabled {
+        color: #475569;
+      }
+      
       .action-divider {
         width: 1px;
         height: 16px;
@@ -519,6 +805,480 @@ export class UI {
         background: #475569;
       }
       
+      /* Profile Manager */
+      .profile-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+        max-height: 320px;
+        overflow-y: auto;
+      }
+      
+      .profile-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+      }
+      
+      .profile-row.active {
+        border-color: #3b82f6;
+        background: #eff6ff;
+      }
+      
+      .dark .profile-row {
+        border-color: #334155;
+      }
+      
+      .dark .profile-row.active {
+        border-color: #3b82f6;
+        background: #1e3a8a;
+      }
+      
+      .profile-name {
+        flex: 1;
+        font-size: 14px;
+        font-weight: 500;
+        color: #334155;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      
+      .dark .profile-name {
+        color: #e2e8f0;
+      }
+      
+      .profile-active-badge {
+        font-size: 11px;
+        color: #3b82f6;
+        font-weight: 600;
+      }
+      
+      .profile-action-btn {
+        width: 28px;
+        height: 28px;
+        border-radius: 4px;
+        border: 1px solid #cbd5e1;
+        background: white;
+        color: #475569;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 16px;
+      }
+      
+      .profile-action-btn:hover {
+        background: #f1f5f9;
+        color: #1e293b;
+      }
+      
+      .dark .profile-action-btn {
+        border-color: #475569;
+        background: #334155;
+        color: #cbd5e1;
+      }
+      
+      .profile-create-btn {
+        margin-top: 12px;
+        padding: 6px 12px;
+        font-size: 14px;
+        border-radius: 6px;
+        border: 1px dashed #94a3b8;
+        background: transparent;
+        color: #475569;
+        width: 100%;
+      }
+      
+      .dark .profile-create-btn {
+        color: #cbd5e1;
+      }
+      
+      /* Discovery Journal */
+      .journal-list {
+        margin-top: 12px;
+        max-height: 320px;
+        overflow-y: auto;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+      }
+      
+      .dark .journal-list {
+        border-color: #334155;
+      }
+      
+      .journal-entry {
+        display: flex;
+        flex-direction: column;
+        padding: 8px 10px;
+        border-bottom: 1px solid #f1f5f9;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .journal-entry:last-child {
+        border-bottom: none;
+      }
+      
+      .dark .journal-entry {
+        border-color: #1e293b;
+        color: #e2e8f0;
+      }
+      
+      .journal-time {
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .dark .journal-time {
+        color: #94a3b8;
+      }
+      
+      .journal-exports {
+        display: flex;
+        gap: 8px;
+        margin-top: 12px;
+      }
+      
+      .journal-export-btn {
+        flex: 1;
+        padding: 6px 12px;
+        font-size: 13px;
+        border-radius: 6px;
+        border: 1px solid #cbd5e1;
+        background: white;
+        color: #475569;
+      }
+      
+      .journal-export-btn:hover {
+        background: #f1f5f9;
+      }
+      
+      .dark .journal-export-btn {
+        border-color: #475569;
+        background: #334155;
+        color: #cbd5e1;
+      }
+      
+      /* Save Backups */
+      .backup-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+        max-height: 320px;
+        overflow-y: auto;
+      }
+      
+      .backup-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+      }
+      
+      .dark .backup-row {
+        border-color: #334155;
+      }
+      
+      .backup-info {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .backup-info {
+        color: #e2e8f0;
+      }
+      
+      .backup-meta {
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .dark .backup-meta {
+        color: #94a3b8;
+      }
+      
+      .backup-restore-btn {
+        padding: 4px 10px;
+        font-size: 13px;
+        border-radius: 4px;
+        border: 1px solid #3b82f6;
+        background: white;
+        color: #3b82f6;
+      }
+      
+      .backup-restore-btn:hover {
+        background: #eff6ff;
+      }
+      
+      .dark .backup-restore-btn {
+        background: #1e293b;
+      }
+      
+      .auto-alchemist-controls {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-top: 12px;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .auto-alchemist-controls {
+        color: #e2e8f0;
+      }
+      
+      .auto-alchemist-btn {
+        padding: 4px 10px;
+        font-size: 13px;
+        border-radius: 4px;
+        border: 1px solid #3b82f6;
+        background: white;
+        color: #3b82f6;
+      }
+      
+      .dark .auto-alchemist-btn {
+        background: #1e293b;
+      }
+      
+      .auto-alchemist-interval select {
+        margin-left: 6px;
+      }
+      
+      .auto-alchemist-log {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        margin-top: 12px;
+        max-height: 240px;
+        overflow-y: auto;
+        font-size: 12px;
+        color: #64748b;
+      }
+      
+      .auto-alchemist-entry.success {
+        color: #059669;
+        font-weight: 600;
+      }
+      
+      .dark .auto-alchemist-log {
+        color: #94a3b8;
+      }
+      
+      .dark .auto-alchemist-entry.success {
+        color: #34d399;
+      }
+      
+      .achievement-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+        max-height: 360px;
+        overflow-y: auto;
+      }
+      
+      .achievement-row {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+        opacity: 0.6;
+      }
+      
+      .achievement-row.unlocked {
+        opacity: 1;
+        border-color: #f59e0b;
+      }
+      
+      .dark .achievement-row {
+        border-color: #334155;
+      }
+      
+      .dark .achievement-row.unlocked {
+        border-color: #d97706;
+      }
+      
+      .achievement-icon {
+        font-size: 20px;
+      }
+      
+      .achievement-info {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .achievement-info {
+        color: #e2e8f0;
+      }
+      
+      .achievement-name {
+        font-weight: 600;
+      }
+      
+      .achievement-meta {
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .dark .achievement-meta {
+        color: #94a3b8;
+      }
+      
+      .shop-balance {
+        margin: 8px 0 0;
+        font-size: 13px;
+        font-weight: 600;
+        color: #334155;
+      }
+      
+      .dark .shop-balance {
+        color: #e2e8f0;
+      }
+      
+      .shop-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+        max-height: 320px;
+        overflow-y: auto;
+      }
+      
+      .shop-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+      }
+      
+      .dark .shop-row {
+        border-color: #334155;
+      }
+      
+      .shop-info {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .shop-info {
+        color: #e2e8f0;
+      }
+      
+      .shop-meta {
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .dark .shop-meta {
+        color: #94a3b8;
+      }
+      
+      .shop-buy-btn {
+        padding: 4px 10px;
+        font-size: 13px;
+        border-radius: 4px;
+        border: 1px solid #10b981;
+        background: white;
+        color: #059669;
+        white-space: nowrap;
+      }
+      
+      .shop-buy-btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      
+      .dark .shop-buy-btn {
+        background: #1e293b;
+      }
+      
+      .prestige-stats,
+      .prestige-award {
+        margin: 8px 0 0;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .prestige-stats,
+      .dark .prestige-award {
+        color: #e2e8f0;
+      }
+      
+      .prestige-bonus-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+      }
+      
+      .prestige-bonus-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 10px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+      }
+      
+      .dark .prestige-bonus-row {
+        border-color: #334155;
+      }
+      
+      .prestige-bonus-info {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        font-size: 13px;
+        color: #334155;
+      }
+      
+      .dark .prestige-bonus-info {
+        color: #e2e8f0;
+      }
+      
+      .prestige-bonus-level {
+        font-size: 11px;
+        color: #64748b;
+      }
+      
+      .prestige-buy-btn {
+        padding: 4px 10px;
+        font-size: 13px;
+        border-radius: 4px;
+        border: 1px solid #8b5cf6;
+        background: white;
+        color: #8b5cf6;
+      }
+      
+      .prestige-buy-btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      
+      .dark .prestige-buy-btn {
+        background: #1e293b;
+      }
+      
       /* Help/Confirm Modal */
       .help-overlay {
         position: fixed;
@@ -653,7 +1413,7 @@ export class UI {
   
   private setupDarkModeClass(): void {
     // Apply dark classes to body based on saved preference
-    const isDarkMode = localStorage.getItem('idle-alchemy-dark-mode') === 'true';
+    const isDarkMode = storage.get('darkMode') === true;
     if (isDarkMode) {
       document.body.classList.add('dark-mode', 'dark');
     }
@@ -671,6 +1431,9 @@ export class UI {
       }
     });
     
+    // Undo / redo
+    this.setupUndoRedo();
+    
     // Auto arrange action
     const autoArrangeAction = document.getElementById('auto-arrange-action')!;
     autoArrangeAction.addEventListener('click', () => {
@@ -724,6 +1487,75 @@ export class UI {
       }
     });
     
+    // Transmutation (prestige)
+    const transmuteAction = document.getElementById('transmute-action')!;
+    transmuteAction.addEventListener('click', () => {
+      this.openTransmute();
+    });
+    
+    // Essence shop
+    const shopAction = document.getElementById('shop-action')!;
+    shopAction.addEventListener('click', () => {
+      this.openShop();
+    });
+    
+    // Auto-alchemist
+    const autoAlchemistAction = document.getElementById('auto-alchemist-action')!;
+    autoAlchemistAction.addEventListener('click', () => {
+      this.openAutoAlchemist();
+    });
+    window.addEventListener('autoAlchemistActivity', ((event: CustomEvent) => {
+      this.appendAutoAlchemistLog(event.detail.entries);
+    }) as EventListener);
+    
+    // Hints
+    const hintAction = document.getElementById('hint-action')!;
+    hintAction.addEventListener('click', () => {
+      const hint = this.game.useHint();
+      this.showToast(hint ?? t('ui.messages.noHints'));
+    });
+    
+    // Achievements
+    const achievementsAction = document.getElementById('achievements-action')!;
+    achievementsAction.addEventListener('click', () => {
+      this.openAchievements();
+    });
+    window.addEventListener('achievementUnlocked', ((event: CustomEvent) => {
+      this.showToast(t('ui.achievements.unlocked', { name: t(`ui.achievements.items.${event.detail.id}.name`) }));
+    }) as EventListener);
+    
+    // Panel tabs
+    document.getElementById('tab-elements')!.addEventListener('click', () => {
+      this.showPanelTab('elements');
+    });
+    document.getElementById('tab-quests')!.addEventListener('click', () => {
+      this.showPanelTab('quests');
+    });
+    window.addEventListener('questsChanged', () => {
+      this.updateQuestList();
+    });
+    
+    // Discovery journal
+    const journalAction = document.getElementById('journal-action')!;
+    journalAction.addEventListener('click', () => {
+      this.openJournal();
+    });
+    
+    // Save backups
+    const backupsAction = document.getElementById('backups-action')!;
+    backupsAction.addEventListener('click', () => {
+      this.openBackups();
+    });
+    
+    // Export / import save files
+    this.setupSaveTransfer();
+    
+    // Player profiles
+    const profileSwitcher = document.getElementById('profile-switcher')!;
+    profileSwitcher.addEventListener('click', () => {
+      this.openProfileManager();
+    });
+    
     // Search functionality
     this.setupElementSearch();
     
@@ -736,6 +1568,51 @@ export class UI {
     // Sorting controls
     this.setupSortingControls();
 
+    // Storage full: progress is no longer being saved
+    window.addEventListener('storageQuotaExceeded', () => {
+      showConfirm({
+        title: t('ui.confirmations.storageFull.title'),
+        message: t('ui.confirmations.storageFull.message'),
+        confirmText: t('ui.confirmations.storageFull.confirm'),
+        type: 'warning',
+        showCancel: false
+      });
+    });
+    
+    window.addEventListener('storageQuotaRecovered', () => {
+      this.showToast(t('ui.messages.storageRecovered'));
+    });
+    
+    // Another tab changed shared data
+    window.addEventListener('storageSynced', ((event: CustomEvent) => {
+      if (event.detail.global && event.detail.key === 'profiles') {
+        this.updateTranslatedContent();
+      } else if (!event.detail.global && event.detail.key === 'discoveryOrder') {
+        this.mergeDiscoveryOrder();
+      }
+    }) as EventListener);
+    
+    // Inventory counts changed: update the count badges on the element cards
+    window.addEventListener('inventoryChanged', ((event: CustomEvent) => {
+      this.updateElementCounts(event.detail.counts);
+    }) as EventListener);
+    window.addEventListener('elementOutOfStock', ((event: CustomEvent) => {
+      const elementId: string = event.detail.elementId;
+      const element = configLoader.getElementById(elementId);
+      const elementName = element ? i18n.getElementName(elementId, element.name) : elementId;
+      this.showToast(t('ui.messages.outOfStock', { element: elementName }));
+    }) as EventListener);
+    
+    // Essence balance (reported a few times per second by the game ticker)
+    window.addEventListener('essenceChanged', ((event: CustomEvent) => {
+      this.updateEssenceDisplay(event.detail.essence, event.detail.rate);
+    }) as EventListener);
+    
+    // Returning to a tab that was in the background
+    window.addEventListener('offlineProgress', ((event: CustomEvent) => {
+      this.showOfflineReport(event.detail);
+    }) as EventListener);
+    
     // Game state changes
     window.addEventListener('gameStateChanged', ((event: CustomEvent) => {
       // Store game state for element grid updates
@@ -745,6 +1622,31 @@ export class UI {
     }) as EventListener);
   }
   
+  private showOfflineReport(report: OfflineReport): void {
+    let message = t('ui.offline.message', {
+      duration: formatDuration(report.awayMs),
+      essence: formatEssence(report.essence)
+    });
+    if (report.capped) {
+      message += ` ${t('ui.offline.capped', { max: formatDuration(MAX_OFFLINE_DURATION) })}`;
+    }
+    
+    showConfirm({
+      title: t('ui.offline.title'),
+      message,
+      confirmText: t('ui.offline.confirm'),
+      type: 'info',
+      showCancel: false
+    });
+  }
+  
+  private updateEssenceDisplay(essence: number, rate: number): void {
+    const amount = document.getElementById('essence-amount');
+    const rateLabel = document.getElementById('essence-rate');
+    if (amount) amount.textContent = formatEssence(essence);
+    if (rateLabel) rateLabel.textContent = `+${formatEssence(rate)}/s`;
+  }
+  
   private updateUI(): void {
     const progress = this.game.getProgress();
     
@@ -752,8 +1654,92 @@ export class UI {
     const elementsTitle = document.getElementById('elements-title')!;
     elementsTitle.textContent = `Elements (${progress.discovered})`;
     
+    const hintAction = document.getElementById('hint-action');
+    if (hintAction) hintAction.title = t('ui.buttons.hint', { count: this.game.getHintCount() });
+    
     // Update element grid
     this.updateElementGrid();
+    this.updateQuestList();
+  }
+  
+  private showPanelTab(tab: 'elements' | 'quests'): void {
+    document.getElementById('discovery-panel')!.classList.toggle('quests-active', tab === 'quests');
+    document.getElementById('tab-elements')!.classList.toggle('active', tab === 'elements');
+    document.getElementById('tab-quests')!.classList.toggle('active', tab === 'quests');
+    if (tab === 'quests') {
+      this.updateQuestList();
+    }
+  }
+  
+  private updateQuestList(): void {
+    const list = document.getElementById('quest-list');
+    if (!list) return;
+    
+    list.innerHTML = '';
+    const now = Date.now();
+    this.game.getQuests().forEach(quest => {
+      const progress = this.game.getQuestProgress(quest);
+      const claimed = this.game.isQuestClaimed(quest);
+      
+      const row = document.createElement('div');
+      row.className = `quest-row${claimed ? ' claimed' : ''}`;
+      row.setAttribute('data-quest-id', quest.id);
+      
+      const header = document.createElement('div');
+      header.className = 'quest-meta';
+      const period = document.createElement('span');
+      period.textContent = t(`ui.quests.${quest.period}`);
+      const expires = document.createElement('span');
+      expires.textContent = t('ui.quests.endsIn', { time: formatDuration(quest.expiresAt - now) });
+      header.append(period, expires);
+      
+      const description = document.createElement('div');
+      description.className = 'quest-description';
+      description.textContent = this.describeQuest(quest);
+      
+      const bar = document.createElement('div');
+      bar.className = 'quest-progress';
+      const fill = document.createElement('div');
+      fill.className = 'quest-progress-fill';
+      fill.style.width = `${(progress / quest.target) * 100}%`;
+      bar.appendChild(fill);
+      
+      const footer = document.createElement('div');
+      footer.className = 'quest-meta';
+      const count = document.createElement('span');
+      count.textContent = `${progress}/${quest.target}`;
+      const reward = document.createElement('span');
+      reward.textContent = t(`ui.quests.rewards.${quest.reward.type}`, { amount: quest.reward.amount });
+      footer.append(count, reward);
+      
+      const claim = document.createElement('button');
+      claim.className = 'quest-claim-btn';
+      claim.textContent = claimed ? t('ui.quests.claimed') : t('ui.quests.claim');
+      claim.disabled = claimed || progress < quest.target;
+      claim.addEventListener('click', () => {
+        if (this.game.claimQuest(quest.id)) {
+          this.showToast(t('ui.quests.rewardClaimed', {
+            reward: t(`ui.quests.rewards.${quest.reward.type}`, { amount: quest.reward.amount })
+          }));
+        }
+      });
+      
+      row.append(header, description, bar, footer, claim);
+      list.appendChild(row);
+    });
+  }
+  
+  private describeQuest(quest: Quest): string {
+    switch (quest.goal.type) {
+      case 'make': {
+        const element = configLoader.getElementById(quest.goal.elementId);
+        return t('ui.quests.goals.make', { element: element?.name ?? quest.goal.elementId, count: quest.target });
+      }
+      case 'discoverCategory':
+        return t('ui.quests.goals.discoverCategory', { category: t(`ui.quests.categories.${quest.goal.category}`) });
+      case 'merges':
+        return t('ui.quests.goals.merges', { count: quest.target });
+    }
   }
   
   private updateElementGrid(): void {
@@ -795,14 +1781,21 @@ export class UI {
       elementCard.setAttribute('data-element-id', element.id);
       const elementName = i18n.getElementName(element.id, element.name);
       
-      // Create minimal element layout (icon + name)
+      // Create minimal element layout (icon + name + inventory count)
       elementCard.innerHTML = `
         <span class="element-emoji">${element.emoji}</span>
         <span class="element-name">${elementName}</span>
+        <span class="element-count"></span>
       `;
+      this.updateElementCount(elementCard, this.game.getElementCount(element.id));
       
       // Add drag functionality
       elementCard.addEventListener('dragstart', (e) => {
+        if (this.game.getElementCount(element.id) <= 0) {
+          e.preventDefault();
+          this.showToast(t('ui.messages.outOfStock', { element: elementName }));
+          return;
+        }
         if (e.dataTransfer) {
           e.dataTransfer.setData('text/plain', element.id);
           e.dataTransfer.effectAllowed = 'copy';
@@ -823,9 +1816,9 @@ export class UI {
         
         // Add visual feedback
         elementCard.classList.add('clicked');
-        setTimeout(() => {
+        scheduler.after(150, () => {
           elementCard.classList.remove('clicked');
-        }, 150);
+        });
         
         this.addElementToCanvas(element.id);
       });
@@ -836,7 +1829,7 @@ export class UI {
     console.log(`✅ Element grid updated with ${this.elementGrid.children.length} cards`);
     
     // Apply current sorting
-    const currentSort = localStorage.getItem('idle-alchemy-sort') || 'discovery-asc';
+    const currentSort = storage.get('sort') || 'discovery-asc';
     this.applySorting(currentSort);
   }
   
@@ -862,14 +1855,59 @@ export class UI {
     
     const success = this.game.addElementFromPanel(elementId, globalX, globalY);
     
+    // Get element name from config for display
+    const element = configLoader.getElementById(elementId);
+    const elementName = element ? i18n.getElementName(elementId, element.name) : elementId;
     if (success) {
-      // Get element name from config for display
-      const element = configLoader.getElementById(elementId);
-      const elementName = element ? i18n.getElementName(elementId, element.name) : elementId;
       this.showToast(t('ui.messages.added', { element: elementName }));
+    } else if (this.game.getElementCount(elementId) <= 0) {
+      this.showToast(t('ui.messages.outOfStock', { element: elementName }));
     }
   }
+  
+  private updateElementCount(card: HTMLElement, count: number): void {
+    const badge = card.querySelector('.element-count');
+    if (badge) badge.textContent = count.toString();
+    card.classList.toggle('out-of-stock', count <= 0);
+  }
+  
+  private updateElementCounts(counts: Record<string, number>): void {
+    this.elementGrid.querySelectorAll<HTMLElement>('.element-card[data-element-id]').forEach(card => {
+      this.updateElementCount(card, counts[card.getAttribute('data-element-id')!] ?? 0);
+    });
+  }
 
+  private setupUndoRedo(): void {
+    const undoAction = document.getElementById('undo-action') as HTMLButtonElement;
+    const redoAction = document.getElementById('redo-action') as HTMLButtonElement;
+    
+    undoAction.addEventListener('click', () => this.game.undo());
+    redoAction.addEventListener('click', () => this.game.redo());
+    
+    window.addEventListener('canvasHistoryChanged', ((event: CustomEvent) => {
+      undoAction.disabled = !event.detail.canUndo;
+      redoAction.disabled = !event.detail.canRedo;
+    }) as EventListener);
+    
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+    document.addEventListener('keydown', (e) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      
+      // Leave text fields and open dialogs their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]') || document.querySelector('.dialog-overlay')) {
+        return;
+      }
+      
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.game.redo();
+      } else {
+        this.game.undo();
+      }
+    });
+  }
+  
   private autoArrangeElements(): void {
     this.game.autoArrangeElements();
   }
@@ -901,6 +1939,99 @@ export class UI {
     }
   }
   
+  private showLoadErrorIfNeeded(): void {
+    if (this.game.getLoadError()) {
+      this.openBackups();
+    }
+  }
+  
+  // Doubles as the recovery dialog while the stored save cannot be loaded
+  private async openBackups(): Promise<void> {
+    const loadError = this.game.getLoadError();
+    const backups = getBackups();
+    const content = this.createBackupList(backups);
+    
+    if (!loadError) {
+      showConfirm({
+        title: t('ui.backups.title'),
+        message: backups.length > 0 ? t('ui.backups.description') : t('ui.backups.empty'),
+        confirmText: t('ui.buttons.close'),
+        type: 'info',
+        showCancel: false,
+        content
+      });
+      return;
+    }
+    
+    const message = t('ui.confirmations.loadFailed.message', { error: this.escapeHtml(loadError.message) });
+    const startFresh = await showConfirm({
+      title: t('ui.confirmations.loadFailed.title'),
+      message: backups.length > 0 ? `${message} ${t('ui.backups.recoverHint')}` : message,
+      confirmText: t('ui.confirmations.loadFailed.confirm'),
+      cancelText: t('ui.confirmations.loadFailed.cancel'),
+      type: 'warning',
+      content
+    });
+    
+    if (startFresh) {
+      this.game.reset();
+      this.showToast(t('ui.messages.gameReset'));
+    }
+  }
+  
+  private createBackupList(backups: SaveBackup[]): HTMLElement {
+    const list = document.createElement('div');
+    list.className = 'backup-list';
+    
+    backups.forEach(backup => {
+      const row = document.createElement('div');
+      row.className = 'backup-row';
+      row.setAttribute('data-backup-id', backup.id);
+      
+      const info = document.createElement('div');
+      info.className = 'backup-info';
+      const date = document.createElement('span');
+      date.textContent = new Date(backup.createdAt).toLocaleString();
+      const meta = document.createElement('span');
+      meta.className = 'backup-meta';
+      meta.textContent = `${t('ui.backups.discovered', { count: backup.discoveredCount })} · ${t(`ui.backups.reasons.${backup.reason}`)}`;
+      info.append(date, meta);
+      row.appendChild(info);
+      
+      const restoreBtn = document.createElement('button');
+      restoreBtn.className = 'backup-restore-btn';
+      restoreBtn.textContent = t('ui.backups.restore');
+      restoreBtn.addEventListener('click', () => this.restoreBackup(backup));
+      row.appendChild(restoreBtn);
+      
+      list.appendChild(row);
+    });
+    
+    return list;
+  }
+  
+  private async restoreBackup(backup: SaveBackup): Promise<void> {
+    const confirmed = await showConfirm({
+      title: t('ui.backups.restoreTitle'),
+      message: t('ui.backups.restoreMessage', {
+        date: new Date(backup.createdAt).toLocaleString(),
+        count: backup.discoveredCount
+      }),
+      confirmText: t('ui.backups.restore'),
+      cancelText: t('ui.confirmations.clearCanvas.cancel'),
+      type: 'warning'
+    });
+    
+    if (!confirmed) {
+      // Back to the list (or the recovery dialog) this was opened from
+      this.openBackups();
+      return;
+    }
+    
+    this.game.restoreBackup(backup.id);
+    this.showToast(t('ui.messages.backupRestored'));
+  }
+  
   private refreshUI(): void {
     // Update translated content without recreating the entire UI
     this.updateTranslatedContent();
@@ -911,6 +2042,18 @@ export class UI {
   private updateTranslatedContent(): void {
     console.log('🌍 Updating translated content...');
     // Update action buttons
+    const undoAction = document.getElementById('undo-action');
+    if (undoAction) {
+      undoAction.textContent = t('ui.buttons.undo');
+      undoAction.title = `${t('ui.buttons.undo')} (Ctrl+Z)`;
+    }
+    
+    const redoAction = document.getElementById('redo-action');
+    if (redoAction) {
+      redoAction.textContent = t('ui.buttons.redo');
+      redoAction.title = `${t('ui.buttons.redo')} (Ctrl+Shift+Z)`;
+    }
+    
     const autoArrangeAction = document.getElementById('auto-arrange-action');
     if (autoArrangeAction) autoArrangeAction.textContent = t('ui.buttons.autoArrange');
     
@@ -923,6 +2066,48 @@ export class UI {
     const resetAction = document.getElementById('reset-action');
     if (resetAction) resetAction.title = t('ui.buttons.reset') || 'Reset Game';
     
+    const backupsAction = document.getElementById('backups-action');
+    if (backupsAction) backupsAction.title = t('ui.buttons.backups');
+    
+    const profileSwitcher = document.getElementById('profile-switcher');
+    if (profileSwitcher) profileSwitcher.title = t('ui.buttons.profiles');
+    
+    const profileLabel = document.getElementById('active-profile-label');
+    if (profileLabel) profileLabel.textContent = profileManager.getActiveProfile().name;
+    
+    const essenceLabel = document.getElementById('essence-label');
+    if (essenceLabel) essenceLabel.textContent = t('ui.essence.label');
+    
+    const transmuteAction = document.getElementById('transmute-action');
+    if (transmuteAction) transmuteAction.title = t('ui.buttons.transmute');
+    
+    const shopAction = document.getElementById('shop-action');
+    if (shopAction) shopAction.title = t('ui.buttons.shop');
+    
+    const autoAlchemistAction = document.getElementById('auto-alchemist-action');
+    if (autoAlchemistAction) autoAlchemistAction.title = t('ui.buttons.autoAlchemist');
+    
+    const achievementsAction = document.getElementById('achievements-action');
+    if (achievementsAction) achievementsAction.title = t('ui.buttons.achievements');
+    
+    const journalAction = document.getElementById('journal-action');
+    if (journalAction) journalAction.title = t('ui.buttons.journal');
+    
+    const copyShareCode = document.getElementById('copy-share-code');
+    if (copyShareCode) copyShareCode.title = t('ui.buttons.copyShareLink');
+    
+    const exportSave = document.getElementById('export-save');
+    if (exportSave) exportSave.title = t('ui.buttons.exportSave');
+    
+    const importSave = document.getElementById('import-save');
+    if (importSave) importSave.title = t('ui.buttons.importSave');
+    
+    const elementsTab = document.getElementById('tab-elements');
+    if (elementsTab) elementsTab.textContent = t('ui.tabs.elements');
+    
+    const questsTab = document.getElementById('tab-quests');
+    if (questsTab) questsTab.textContent = t('ui.tabs.quests');
+    
     // Update search placeholder
     const searchInput = document.getElementById('element-search') as HTMLInputElement;
     if (searchInput) searchInput.placeholder = t('ui.placeholder.search') || 'Search...';
@@ -962,7 +2147,7 @@ export class UI {
     }
     
     // Load saved dark mode preference
-    const isDarkMode = localStorage.getItem('idle-alchemy-dark-mode') === 'true';
+    const isDarkMode = storage.get('darkMode') === true;
     if (isDarkMode) {
       document.body.classList.add('dark-mode');
       this.updateDarkModeIcon(true);
@@ -974,11 +2159,11 @@ export class UI {
       
       if (isCurrentlyDark) {
         document.body.classList.remove('dark-mode', 'dark');
-        localStorage.setItem('idle-alchemy-dark-mode', 'false');
+        storage.set('darkMode', false);
         this.updateDarkModeIcon(false);
       } else {
         document.body.classList.add('dark-mode', 'dark');
-        localStorage.setItem('idle-alchemy-dark-mode', 'true');
+        storage.set('darkMode', true);
         this.updateDarkModeIcon(true);
       }
     });
@@ -1003,17 +2188,18 @@ export class UI {
       return;
     }
     
-    // Load saved zoom level
-    const savedZoom = localStorage.getItem('idle-alchemy-zoom') || '100';
-    const zoomPercent = parseInt(savedZoom);
-    this.game.setZoom(zoomPercent / 100);
+    // Load saved zoom level (the restored workspace camera takes precedence)
+    if (!this.game.hasRestoredWorkspace()) {
+      const zoomPercent = storage.get('zoom') || 100;
+      this.game.setZoom(zoomPercent / 100);
+    }
     
     // Zoom in
     zoomInBtn.addEventListener('click', () => {
       const current = Math.round(this.game.getZoom() * 100);
       const newZoom = Math.min(200, current + 10); // Max 200%
       this.game.setZoom(newZoom / 100);
-      localStorage.setItem('idle-alchemy-zoom', newZoom.toString());
+      storage.set('zoom', newZoom);
       this.showToast(`Canvas zoom: ${newZoom}%`);
     });
     
@@ -1022,11 +2208,651 @@ export class UI {
       const current = Math.round(this.game.getZoom() * 100);
       const newZoom = Math.max(50, current - 10); // Min 50%
       this.game.setZoom(newZoom / 100);
-      localStorage.setItem('idle-alchemy-zoom', newZoom.toString());
+      storage.set('zoom', newZoom);
       this.showToast(`Canvas zoom: ${newZoom}%`);
     });
   }
   
+  private openProfileManager(): void {
+    const activeId = profileManager.getActiveProfile().id;
+    const content = document.createElement('div');
+    
+    const list = document.createElement('div');
+    list.className = 'profile-list';
+    content.appendChild(list);
+    
+    profileManager.getProfiles().forEach(profile => {
+      const isActive = profile.id === activeId;
+      const row = document.createElement('div');
+      row.className = `profile-row${isActive ? ' active' : ''}`;
+      row.setAttribute('data-profile-id', profile.id);
+      
+      // Names are user input: set as text, never as HTML
+      const name = document.createElement('span');
+      name.className = 'profile-name';
+      name.textContent = profile.name;
+      row.appendChild(name);
+      
+      if (isActive) {
+        const badge = document.createElement('span');
+        badge.className = 'profile-active-badge';
+        badge.textContent = t('ui.profiles.active');
+        row.appendChild(badge);
+      } else {
+        row.appendChild(this.createProfileAction('login', t('ui.profiles.switch'), 'switch', () => this.switchProfile(profile)));
+      }
+      row.appendChild(this.createProfileAction('edit', t('ui.profiles.rename'), 'rename', () => this.renameProfile(profile)));
+      row.appendChild(this.createProfileAction('content_copy', t('ui.profiles.duplicate'), 'duplicate', () => this.duplicateProfile(profile)));
+      if (!isActive) {
+        row.appendChild(this.createProfileAction('delete', t('ui.profiles.delete'), 'delete', () => this.deleteProfile(profile)));
+      }
+      
+      list.appendChild(row);
+    });
+    
+    const createBtn = document.createElement('button');
+    createBtn.className = 'profile-create-btn';
+    createBtn.id = 'profile-create';
+    createBtn.textContent = t('ui.profiles.create');
+    createBtn.addEventListener('click', () => this.createProfile());
+    content.appendChild(createBtn);
+    
+    showConfirm({
+      title: t('ui.profiles.title'),
+      message: t('ui.profiles.description'),
+      confirmText: t('ui.buttons.close'),
+      type: 'info',
+      showCancel: false,
+      content
+    });
+  }
+  
+  private createProfileAction(icon: string, label: string, action: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'profile-action-btn';
+    button.title = label;
+    button.setAttribute('data-profile-action', action);
+    button.innerHTML = `<span class="material-symbols-outlined">${icon}</span>`;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+  
+  private async promptProfileName(title: string, value: string = ''): Promise<string | null> {
+    const name = await showPrompt({
+      title,
+      message: '',
+      confirmText: t('ui.profiles.save'),
+      cancelText: t('ui.confirmations.clearCanvas.cancel'),
+      input: { value, placeholder: t('ui.profiles.namePlaceholder') }
+    });
+    return name ? name : null;
+  }
+  
+  private async createProfile(): Promise<void> {
+    const name = await this.promptProfileName(t('ui.profiles.create'));
+    if (name) {
+      profileManager.createProfile(name);
+    }
+    this.openProfileManager();
+  }
+  
+  private async renameProfile(profile: ProfileInfo): Promise<void> {
+    const name = await this.promptProfileName(t('ui.profiles.rename'), profile.name);
+    if (name) {
+      profileManager.renameProfile(profile.id, name);
+      this.updateTranslatedContent();
+    }
+    this.openProfileManager();
+  }
+  
+  private async duplicateProfile(profile: ProfileInfo): Promise<void> {
+    const name = await this.promptProfileName(
+      t('ui.profiles.duplicate'),
+      t('ui.profiles.copyName', { name: profile.name })
+    );
+    if (name) {
+      profileManager.duplicateProfile(profile.id, name);
+    }
+    this.openProfileManager();
+  }
+  
+  private async deleteProfile(profile: ProfileInfo): Promise<void> {
+    const confirmed = await showConfirm({
+      title: t('ui.profiles.deleteTitle'),
+      message: t('ui.profiles.deleteMessage', { name: this.escapeHtml(profile.name) }),
+      confirmText: t('ui.profiles.delete'),
+      cancelText: t('ui.confirmations.clearCanvas.cancel'),
+      type: 'warning'
+    });
+    if (confirmed) {
+      profileManager.deleteProfile(profile.id);
+    }
+    this.openProfileManager();
+  }
+  
+  private async switchProfile(profile: ProfileInfo): Promise<void> {
+    await profileManager.switchProfile(profile.id);
+    // Every system re-initializes from the new profile's data on reload
+    window.location.reload();
+  }
+  
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+  
+  private setupSaveTransfer(): void {
+    const exportBtn = document.getElementById('export-save');
+    const importBtn = document.getElementById('import-save');
+    const fileInput = document.getElementById('import-save-file') as HTMLInputElement | null;
+    
+    if (!exportBtn || !importBtn || !fileInput) {
+      console.error('❌ Save transfer controls not found!');
+      return;
+    }
+    
+    exportBtn.addEventListener('click', () => {
+      this.exportSave();
+    });
+    
+    document.getElementById('copy-share-code')?.addEventListener('click', () => {
+      this.copyShareLink();
+    });
+    
+    importBtn.addEventListener('click', () => {
+      fileInput.click();
+    });
+    
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      // Reset so choosing the same file again still fires 'change'
+      fileInput.value = '';
+      if (file) {
+        await this.importSave(await file.text());
+      }
+    });
+  }
+  
+  private exportSave(): void {
+    const fileContents = createExportFile({
+      save: this.game.exportSaveData(),
+      discoveryOrder: this.discoveryOrder,
+      settings: {
+        sort: storage.get('sort') || 'discovery-asc',
+        zoom: storage.get('zoom') || 100,
+        darkMode: document.body.classList.contains('dark-mode')
+      }
+    });
+    
+    this.downloadFile(fileContents, `idle-alchemy-save-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    
+    this.showToast(t('ui.messages.saveExported'));
+  }
+  
+  private async openTransmute(): Promise<void> {
+    const award = this.game.getTransmuteAward();
+    const content = document.createElement('div');
+    
+    const stats = document.createElement('p');
+    stats.className = 'prestige-stats';
+    stats.textContent = t('ui.prestige.stats', {
+      count: this.game.getPrestigeCount(),
+      stones: this.game.getStones()
+    });
+    const awardText = document.createElement('p');
+    awardText.className = 'prestige-award';
+    awardText.textContent = award >= 1 ? t('ui.prestige.award', { stones: award }) : t('ui.prestige.notEnough');
+    content.append(stats, awardText);
+    
+    const list = document.createElement('div');
+    list.className = 'prestige-bonus-list';
+    (Object.keys(PRESTIGE_BONUSES) as PrestigeBonusId[]).forEach(id => {
+      const row = document.createElement('div');
+      row.className = 'prestige-bonus-row';
+      row.setAttribute('data-bonus-id', id);
+      
+      const info = document.createElement('div');
+      info.className = 'prestige-bonus-info';
+      const name = document.createElement('span');
+      name.textContent = t(`ui.prestige.bonuses.${id}`);
+      const level = document.createElement('span');
+      level.className = 'prestige-bonus-level';
+      level.textContent = t('ui.prestige.bonusLevel', {
+        level: this.game.getBonusLevel(id),
+        multiplier: this.game.getBonusMultiplier(id).toFixed(2)
+      });
+      info.append(name, level);
+      
+      const cost = this.game.getBonusCost(id);
+      const buyBtn = document.createElement('button');
+      buyBtn.className = 'prestige-buy-btn';
+      buyBtn.textContent = t('ui.prestige.buy', { cost });
+      buyBtn.disabled = this.game.getStones() < cost;
+      buyBtn.addEventListener('click', () => {
+        if (this.game.buyBonus(id)) {
+          // Reopen so levels, costs and stones are current
+          this.openTransmute();
+        }
+      });
+      
+      row.append(info, buyBtn);
+      list.appendChild(row);
+    });
+    content.appendChild(list);
+    
+    const transmute = await showConfirm({
+      title: t('ui.prestige.title'),
+      message: t('ui.prestige.description'),
+      confirmText: award >= 1 ? t('ui.buttons.transmute') : t('ui.buttons.close'),
+      cancelText: t('ui.confirmations.clearCanvas.cancel'),
+      type: 'info',
+      showCancel: award >= 1,
+      content
+    });
+    if (!transmute || award < 1) return;
+    
+    const confirmed = await showConfirm({
+      title: t('ui.prestige.confirmTitle'),
+      message: t('ui.prestige.confirmMessage', { stones: award }),
+      confirmText: t('ui.buttons.transmute'),
+      cancelText: t('ui.confirmations.clearCanvas.cancel'),
+      type: 'warning'
+    });
+    if (!confirmed) {
+      this.openTransmute();
+      return;
+    }
+    
+    const stones = this.game.transmute();
+    if (stones > 0) {
+      this.showToast(t('ui.messages.transmuted', { stones }));
+    }
+  }
+  
+  private openShop(): void {
+    const content = document.createElement('div');
+    
+    const balance = document.createElement('p');
+    balance.className = 'shop-balance';
+    balance.textContent = t('ui.shop.balance', { essence: formatEssence(this.game.getEssence()) });
+    content.appendChild(balance);
+    
+    const list = document.createElement('div');
+    list.className = 'shop-list';
+    this.game.getUpgrades().forEach(upgrade => {
+      const level = this.game.getUpgradeLevel(upgrade.id);
+      const maxed = this.game.isUpgradeMaxed(upgrade);
+      const cost = this.game.getUpgradeCost(upgrade);
+      
+      const row = document.createElement('div');
+      row.className = 'shop-row';
+      row.setAttribute('data-upgrade-id', upgrade.id);
+      
+      const info = document.createElement('div');
+      info.className = 'shop-info';
+      const name = document.createElement('span');
+      name.textContent = t(`ui.shop.upgrades.${upgrade.id}`);
+      const effect = document.createElement('span');
+      effect.className = 'shop-meta';
+      effect.textContent = t(`ui.shop.effects.${upgrade.effect}`, {
+        value: upgrade.value,
+        percent: Math.round(upgrade.value * 100)
+      });
+      info.append(name, effect);
+      // A refill has no lasting level to show
+      if (upgrade.effect !== 'hintRefill') {
+        const levelText = document.createElement('span');
+        levelText.className = 'shop-meta';
+        levelText.textContent = upgrade.maxLevel !== null
+          ? t('ui.shop.levelOf', { level, max: upgrade.maxLevel })
+          : t('ui.shop.level', { level });
+        info.appendChild(levelText);
+      }
+      
+      const buyBtn = document.createElement('button');
+      buyBtn.className = 'shop-buy-btn';
+      buyBtn.textContent = maxed ? t('ui.shop.maxed') : t('ui.shop.buy', { cost: formatEssence(cost) });
+      buyBtn.disabled = maxed || this.game.getEssence() < cost;
+      buyBtn.addEventListener('click', () => {
+        if (this.game.buyUpgrade(upgrade.id)) {
+          this.showToast(t('ui.messages.upgradeBought', { upgrade: t(`ui.shop.upgrades.${upgrade.id}`) }));
+          // Reopen so levels, costs and the balance are current
+          this.openShop();
+        }
+      });
+      
+      row.append(info, buyBtn);
+      list.appendChild(row);
+    });
+    content.appendChild(list);
+    
+    showConfirm({
+      title: t('ui.shop.title'),
+      message: t('ui.shop.description'),
+      confirmText: t('ui.buttons.close'),
+      type: 'info',
+      showCancel: false,
+      content
+    });
+  }
+  
+  private openAutoAlchemist(): void {
+    const slots = this.game.getAutoMergerSlots();
+    if (slots <= 0) {
+      showConfirm({
+        title: t('ui.autoAlchemist.title'),
+        message: t('ui.autoAlchemist.locked'),
+        confirmText: t('ui.buttons.close'),
+        type: 'info',
+        showCancel: false
+      });
+      return;
+    }
+    
+    const settings = this.game.getAutoAlchemistSettings();
+    const content = document.createElement('div');
+    
+    const controls = document.createElement('div');
+    controls.className = 'auto-alchemist-controls';
+    
+    const pauseBtn = document.createElement('button');
+    pauseBtn.id = 'auto-alchemist-pause';
+    pauseBtn.className = 'auto-alchemist-btn';
+    const showPaused = (paused: boolean) => {
+      pauseBtn.textContent = paused ? t('ui.autoAlchemist.resume') : t('ui.autoAlchemist.pause');
+    };
+    showPaused(settings.paused);
+    pauseBtn.addEventListener('click', () => {
+      const paused = !this.game.getAutoAlchemistSettings().paused;
+      this.game.setAutoAlchemistPaused(paused);
+      showPaused(paused);
+    });
+    
+    const intervalLabel = document.createElement('label');
+    intervalLabel.className = 'auto-alchemist-interval';
+    intervalLabel.textContent = t('ui.autoAlchemist.interval');
+    const intervalSelect = document.createElement('select');
+    intervalSelect.id = 'auto-alchemist-interval';
+    AUTO_ALCHEMIST_INTERVALS.forEach(interval => {
+      const option = document.createElement('option');
+      option.value = interval.toString();
+      option.textContent = t('ui.autoAlchemist.seconds', { seconds: interval / 1000 });
+      option.selected = interval === settings.interval;
+      intervalSelect.appendChild(option);
+    });
+    intervalSelect.addEventListener('change', () => {
+      this.game.setAutoAlchemistInterval(parseInt(intervalSelect.value));
+    });
+    intervalLabel.appendChild(intervalSelect);
+    
+    controls.append(pauseBtn, intervalLabel);
+    content.appendChild(controls);
+    
+    const log = document.createElement('div');
+    log.className = 'auto-alchemist-log';
+    content.appendChild(log);
+    const entries = this.game.getAutoAlchemistLog();
+    if (entries.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'auto-alchemist-empty';
+      empty.textContent = t('ui.autoAlchemist.empty');
+      log.appendChild(empty);
+    } else {
+      // The log is newest first; appending oldest first keeps that order
+      this.appendAutoAlchemistLog([...entries].reverse(), log);
+    }
+    
+    showConfirm({
+      title: t('ui.autoAlchemist.title'),
+      message: t('ui.autoAlchemist.description', { slots }),
+      confirmText: t('ui.buttons.close'),
+      type: 'info',
+      showCancel: false,
+      content
+    });
+  }
+  
+  // Adds entries (oldest first) to the top of the log; by default the open dialog's
+  private appendAutoAlchemistLog(
+    entries: AutoAlchemistLogEntry[],
+    log: Element | null = document.querySelector('.auto-alchemist-log')
+  ): void {
+    if (!log) return;
+    if (entries.length > 0) {
+      log.querySelector('.auto-alchemist-empty')?.remove();
+    }
+    
+    const describe = (id: string) => {
+      const element = configLoader.getElementById(id);
+      return element ? `${element.emoji} ${i18n.getElementName(id, element.name)}` : id;
+    };
+    entries.forEach(entry => {
+      const row = document.createElement('div');
+      row.className = `auto-alchemist-entry${entry.outputs.length > 0 ? ' success' : ''}`;
+      const inputs = entry.inputs.map(describe).join(' + ');
+      row.textContent = entry.outputs.length > 0
+        ? t('ui.autoAlchemist.success', { inputs, output: entry.outputs.map(describe).join(', ') })
+        : t('ui.autoAlchemist.failure', { inputs });
+      log.prepend(row);
+    });
+  }
+  
+  private openAchievements(): void {
+    const achievements = this.game.getAchievements();
+    const list = document.createElement('div');
+    list.className = 'achievement-list';
+    
+    let unlockedCount = 0;
+    achievements.forEach(achievement => {
+      const unlockedAt = this.game.getAchievementUnlockedAt(achievement.id);
+      if (unlockedAt) unlockedCount++;
+      
+      const row = document.createElement('div');
+      row.className = `achievement-row${unlockedAt ? ' unlocked' : ''}`;
+      row.setAttribute('data-achievement-id', achievement.id);
+      
+      const icon = document.createElement('span');
+      icon.className = 'achievement-icon';
+      icon.textContent = unlockedAt ? '🏆' : '🔒';
+      
+      const info = document.createElement('div');
+      info.className = 'achievement-info';
+      const name = document.createElement('span');
+      name.className = 'achievement-name';
+      name.textContent = t(`ui.achievements.items.${achievement.id}.name`);
+      const description = document.createElement('span');
+      description.className = 'achievement-meta';
+      description.textContent = t(`ui.achievements.items.${achievement.id}.description`);
+      const status = document.createElement('span');
+      status.className = 'achievement-meta';
+      if (unlockedAt) {
+        status.textContent = t('ui.achievements.unlockedAt', { date: new Date(unlockedAt).toLocaleString() });
+      } else {
+        const { current, target } = this.game.getAchievementProgress(achievement);
+        status.textContent = t('ui.achievements.progress', { current: Math.min(current, target), target });
+      }
+      info.append(name, description, status);
+      
+      row.append(icon, info);
+      list.appendChild(row);
+    });
+    
+    showConfirm({
+      title: t('ui.achievements.title'),
+      message: t('ui.achievements.description', { unlocked: unlockedCount, total: achievements.length }),
+      confirmText: t('ui.buttons.close'),
+      type: 'info',
+      showCancel: false,
+      content: list
+    });
+  }
+  
+  private openJournal(): void {
+    const entries = this.game.getJournal();
+    const content = document.createElement('div');
+    
+    if (entries.length > 0) {
+      const list = document.createElement('div');
+      list.className = 'journal-list';
+      
+      // Newest first
+      [...entries].reverse().forEach(entry => {
+        const element = configLoader.getElementById(entry.elementId);
+        const inputs = entry.inputs.map(id => {
+          const input = configLoader.getElementById(id);
+          return input ? `${input.emoji} ${input.name}` : id;
+        });
+        
+        const row = document.createElement('div');
+        row.className = 'journal-entry';
+        row.setAttribute('data-element-id', entry.elementId);
+        const recipe = document.createElement('span');
+        recipe.textContent = `${inputs.join(' + ')} = ${element ? `${element.emoji} ${element.name}` : entry.elementId}`;
+        const time = document.createElement('span');
+        time.className = 'journal-time';
+        time.textContent = new Date(entry.discoveredAt).toLocaleString();
+        row.append(recipe, time);
+        list.appendChild(row);
+      });
+      content.appendChild(list);
+      
+      const exports = document.createElement('div');
+      exports.className = 'journal-exports';
+      const date = new Date().toISOString().slice(0, 10);
+      const csvBtn = document.createElement('button');
+      csvBtn.className = 'journal-export-btn';
+      csvBtn.id = 'journal-export-csv';
+      csvBtn.textContent = t('ui.journal.exportCsv');
+      csvBtn.addEventListener('click', () => {
+        this.downloadFile(journalToCsv(entries), `idle-alchemy-journal-${date}.csv`, 'text/csv');
+      });
+      const jsonBtn = document.createElement('button');
+      jsonBtn.className = 'journal-export-btn';
+      jsonBtn.id = 'journal-export-json';
+      jsonBtn.textContent = t('ui.journal.exportJson');
+      jsonBtn.addEventListener('click', () => {
+        this.downloadFile(journalToJson(entries), `idle-alchemy-journal-${date}.json`, 'application/json');
+      });
+      exports.append(csvBtn, jsonBtn);
+      content.appendChild(exports);
+    }
+    
+    showConfirm({
+      title: t('ui.journal.title'),
+      message: entries.length > 0 ? t('ui.journal.description', { count: entries.length }) : t('ui.journal.empty'),
+      confirmText: t('ui.buttons.close'),
+      type: 'info',
+      showCancel: false,
+      content
+    });
+  }
+  
+  private downloadFile(contents: string, filename: string, mimeType: string): void {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+  
+  private async copyShareLink(): Promise<void> {
+    const code = encodeShareCode(this.game.getDiscoveredElementIds());
+    const link = `${window.location.origin}${window.location.pathname}#${SHARE_CODE_PARAM}=${code}`;
+    
+    try {
+      await navigator.clipboard.writeText(link);
+      this.showToast(t('ui.messages.shareLinkCopied'));
+    } catch {
+      // Clipboard access denied: show the link so it can be copied by hand
+      showPrompt({
+        title: t('ui.share.title'),
+        message: t('ui.share.copyManually'),
+        confirmText: t('ui.buttons.close'),
+        showCancel: false,
+        input: { value: link }
+      });
+    }
+  }
+  
+  private async loadShareCodeFromUrl(): Promise<void> {
+    const code = getShareCodeFromHash(window.location.hash);
+    if (code === null) return;
+    
+    // Drop the fragment so a reload does not ask again
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    
+    let hexIds: string[];
+    try {
+      hexIds = decodeShareCode(code);
+    } catch (error) {
+      console.error('❌ Share code rejected:', error);
+      this.showToast(t('ui.messages.importFailed', { error: (error as Error).message }));
+      return;
+    }
+    
+    const confirmed = await showConfirm({
+      title: t('ui.share.loadTitle'),
+      message: t('ui.share.loadMessage', { count: hexIds.length }),
+      confirmText: t('ui.confirmations.importSave.confirm'),
+      cancelText: t('ui.confirmations.importSave.cancel'),
+      type: 'warning'
+    });
+    
+    if (confirmed) {
+      this.game.loadDiscoveries(hexIds);
+      this.showToast(t('ui.messages.saveImported'));
+    }
+  }
+  
+  private async importSave(fileContents: string): Promise<void> {
+    let bundle: ExportBundle;
+    try {
+      bundle = parseExportFile(fileContents);
+    } catch (error) {
+      console.error('❌ Save import rejected:', error);
+      this.showToast(t('ui.messages.importFailed', { error: (error as Error).message }));
+      return;
+    }
+    
+    const confirmed = await showConfirm({
+      title: t('ui.confirmations.importSave.title'),
+      message: t('ui.confirmations.importSave.message', {
+        count: parseSave(bundle.save).progress.discoveredElements.length
+      }),
+      confirmText: t('ui.confirmations.importSave.confirm'),
+      cancelText: t('ui.confirmations.importSave.cancel'),
+      type: 'warning'
+    });
+    
+    if (!confirmed) return;
+    
+    // Preferences and discovery order first, so the grid rebuilt by the game update uses them
+    this.discoveryOrder = bundle.discoveryOrder;
+    this.saveDiscoveryOrder();
+    
+    this.currentSort = bundle.settings.sort;
+    storage.set('sort', this.currentSort);
+    this.updateSortIcons(this.currentSort);
+    
+    storage.set('zoom', bundle.settings.zoom);
+    
+    storage.set('darkMode', bundle.settings.darkMode);
+    if (bundle.settings.darkMode) {
+      document.body.classList.add('dark-mode', 'dark');
+    } else {
+      document.body.classList.remove('dark-mode', 'dark');
+    }
+    this.updateDarkModeIcon(bundle.settings.darkMode);
+    
+    this.game.importSaveData(bundle.save);
+    this.showToast(t('ui.messages.saveImported'));
+  }
+  
   private setupSortingControls(): void {
     const sortAlphabeticalBtn = document.getElementById('sort-alphabetical');
     const sortDiscoveryTimeBtn = document.getElementById('sort-discovery-time');
@@ -1037,7 +2863,7 @@ export class UI {
     }
     
     // Track current sort state
-    this.currentSort = localStorage.getItem('idle-alchemy-sort') || 'discovery-asc';
+    this.currentSort = storage.get('sort') || 'discovery-asc';
     this.updateSortIcons(this.currentSort);
     
     // Alphabetical sort toggle (A-Z / Z-A)
@@ -1048,7 +2874,7 @@ export class UI {
         this.currentSort = 'alphabetical-asc';
       }
       
-      localStorage.setItem('idle-alchemy-sort', this.currentSort);
+      storage.set('sort', this.currentSort);
       this.updateSortIcons(this.currentSort);
       this.applySorting(this.currentSort);
       
@@ -1064,7 +2890,7 @@ export class UI {
         this.currentSort = 'discovery-asc';
       }
       
-      localStorage.setItem('idle-alchemy-sort', this.currentSort);
+      storage.set('sort', this.currentSort);
       this.updateSortIcons(this.currentSort);
       this.applySorting(this.currentSort);
       
@@ -1176,8 +3002,6 @@ export class UI {
       return;
     }
     
-    let searchTimeout: NodeJS.Timeout;
-    
     const performSearch = () => {
       const query = searchInput.value.toLowerCase().trim();
       const elementCards = this.elementGrid.querySelectorAll('.element-card');
@@ -1212,8 +3036,7 @@ export class UI {
     
     // Debounced search
     searchInput.addEventListener('input', () => {
-      clearTimeout(searchTimeout);
-      searchTimeout = setTimeout(performSearch, 150);
+      scheduler.setTimer('search', 150, performSearch);
     });
     
     // Clear search on escape
@@ -1234,14 +3057,14 @@ export class UI {
       const canvasElements = (window as any).game.getAllCanvasElements();
       console.log('🎯 Found canvas elements:', canvasElements.length);
       
+      // Elements that make a two-input recipe with the dragged one
+      const partners = new Set(configLoader.getRecipesUsing(draggedElementId)
+        .filter(recipe => recipe.inputs.length === 2)
+        .map(recipe => recipe.inputs[0] === draggedElementId ? recipe.inputs[1] : recipe.inputs[0]));
+      
       canvasElements.forEach((canvasElement: any) => {
-        // Check if these elements can merge
         const elementId = canvasElement.definition?.id || canvasElement.elementId;
-        console.log(`🔍 Checking merge: ${draggedElementId} + ${elementId}`);
-        
-        const recipe = configLoader.getRecipeByInputs(draggedElementId, elementId);
-        if (recipe) {
-          console.log('✅ Found recipe! Highlighting element:', elementId);
+        if (partners.has(elementId)) {
           // Highlight this element with green background
           this.setElementHighlight(canvasElement, true);
         }
@@ -1319,16 +3142,17 @@ export class UI {
     document.body.appendChild(toast);
     
     // Animate in
-    requestAnimationFrame(() => {
+    scheduler.onFrame(() => {
       toast.style.opacity = '1';
+      return false;
     });
     
     // Remove after shorter delay
-    setTimeout(() => {
+    scheduler.after(1500, () => {
       toast.style.opacity = '0';
-      setTimeout(() => {
+      scheduler.after(200, () => {
         document.body.removeChild(toast);
-      }, 200);
-    }, 1500);
+      });
+    });
   }
 } 
\ No newline at end of file
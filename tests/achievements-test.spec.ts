@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+
+const unlockedAt = (page: any, id: string) =>
+  page.evaluate((id: string) => (window as any).game.getAchievementUnlockedAt(id), id);
+
+test.describe('Achievements', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should unlock on the first merge and keep the time in the save', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 100, 100);
+      game.addElement('1', 400, 100);
+    });
+    await page.evaluate(async () => {
+      const [water, fire] = (window as any).game.getAllCanvasElements();
+      fire.emit('dragstart', fire);
+      fire.x = water.x;
+      fire.y = water.y;
+      fire.emit('dragend', fire);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    });
+
+    await expect(page.getByText('Achievement: First Reaction')).toBeVisible();
+    const saved = await page.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(saved.data.achievements.stats.merges).toBe(1);
+    expect(saved.data.achievements.unlocked.first_merge).toBe(await unlockedAt(page, 'first_merge'));
+  });
+
+  test('should unlock from clearing and show it in the panel', async ({ page }) => {
+    await page.evaluate(() => (window as any).game.clearCanvas());
+    expect(await unlockedAt(page, 'tidy')).not.toBeNull();
+
+    await page.click('#achievements-action');
+    await expect(page.locator('[data-achievement-id="tidy"]')).toHaveClass(/unlocked/);
+    await expect(page.locator('[data-achievement-id="apprentice"]')).toContainText('0/100');
+  });
+
+  test('should count discoveries and survive a reset', async ({ page }) => {
+    await page.evaluate(() => {
+      const ids = (window as any).config.getGameConfig().elements.map((el: any) => el.id);
+      (window as any).game.loadDiscoveries(ids);
+    });
+    expect(await unlockedAt(page, 'collector')).not.toBeNull();
+
+    await page.evaluate(() => (window as any).game.reset());
+    expect(await unlockedAt(page, 'collector')).not.toBeNull();
+  });
+});
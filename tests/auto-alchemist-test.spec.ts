@@ -0,0 +1,69 @@
+import { test, expect } from '@playwright/test';
+
+// Loads a game with the given shop upgrades, last seen `awayMs` ago
+const loadGame = async (page: any, upgrades: Record<string, number>, awayMs: number = 0) => {
+  // Seed from a memory-storage session so the app cannot write back over the seeded save
+  await page.goto('/?storage=memory');
+  await page.evaluate(({ upgrades, lastSeen }: any) => {
+    localStorage.clear();
+    const save = JSON.stringify({
+      version: 7,
+      savedAt: lastSeen,
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air'],
+        elementCounts: { water: 20, fire: 20, earth: 20, air: 20 },
+        journal: [],
+        essence: 0,
+        lastSeen,
+        prestige: { count: 0, stones: 0, bonuses: {} },
+        upgrades,
+        hints: 3
+      }
+    });
+    localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    localStorage.setItem('idle-alchemy:profile:default:autoAlchemist', JSON.stringify({ interval: 1000, paused: false }));
+  }, { upgrades, lastSeen: new Date(Date.now() - awayMs).toISOString() });
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+};
+
+test.describe('Auto-Alchemist', () => {
+  test('should stay locked without an Automaton', async ({ page }) => {
+    await loadGame(page, {});
+    await page.click('#auto-alchemist-action');
+    await expect(page.locator('.dialog-message')).toContainText('Automaton');
+
+    await page.waitForTimeout(1500);
+    expect(await page.evaluate(() => (window as any).game.getAutoAlchemistLog().length)).toBe(0);
+  });
+
+  test('should experiment on every tick and show the log', async ({ page }) => {
+    await loadGame(page, { automaton: 1 });
+    await page.waitForTimeout(2500);
+
+    expect(await page.evaluate(() => (window as any).game.getAutoAlchemistLog().length)).toBeGreaterThan(0);
+    await page.click('#auto-alchemist-action');
+    await expect(page.locator('.auto-alchemist-entry').first()).toBeVisible();
+  });
+
+  test('should stop while paused', async ({ page }) => {
+    await loadGame(page, { automaton: 1 });
+    await page.click('#auto-alchemist-action');
+    await page.click('#auto-alchemist-pause');
+    await expect(page.locator('#auto-alchemist-pause')).toHaveText('Resume');
+
+    const before = await page.evaluate(() => (window as any).game.getAutoAlchemistLog().length);
+    await page.waitForTimeout(2500);
+    expect(await page.evaluate(() => (window as any).game.getAutoAlchemistLog().length)).toBe(before);
+  });
+
+  test('should keep discovering while away', async ({ page }) => {
+    // Ten minutes at one experiment per second is hundreds of tries from the four base elements
+    await loadGame(page, { automaton: 1 }, 10 * 60 * 1000);
+
+    const discovered = await page.evaluate(() => (window as any).game.getDiscoveredElementIds());
+    expect(discovered.length).toBeGreaterThan(4);
+    const journal = await page.evaluate(() => (window as any).game.getJournal());
+    expect(journal.length).toBe(discovered.length - 4);
+  });
+});
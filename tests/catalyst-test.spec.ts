@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+
+const canvasIds = (page: any) =>
+  page.evaluate(() => (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id).sort());
+
+// Drops the element with the given ID onto the one at (300, 300)
+const dropOnTarget = (page: any, id: string) =>
+  page.evaluate((id: string) => {
+    const dragged = (window as any).game.getAllCanvasElements().find((el: any) => el.definition.id === id);
+    dragged.emit('dragstart', dragged);
+    dragged.x = 300;
+    dragged.y = 300;
+    dragged.emit('dragend', dragged);
+    (window as any).scheduler.advance(1000);
+  }, id);
+
+test.describe('Catalyst Recipes', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the seeded save
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      const save = JSON.stringify({
+        version: 9,
+        savedAt: new Date().toISOString(),
+        data: {
+          discoveredElements: ['water', 'fire', 'earth', 'air', 'metal', 'lightning'],
+          elementCounts: {},
+          journal: [],
+          essence: 0,
+          lastSeen: null,
+          prestige: { count: 0, stones: 0, bonuses: {} },
+          upgrades: {},
+          hints: 3,
+          achievements: { unlocked: {}, stats: {} },
+          quests: { progress: {}, claimed: [] }
+        }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    await page.goto('/?clock=manual');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should compile the catalyst into the recipe', async ({ page }) => {
+    const { recipe, lightning } = await page.evaluate(() => {
+      const config = (window as any).config;
+      return {
+        recipe: config.getRecipeByInputs(config.getElementByOriginalId('metal').id, '2'),
+        lightning: config.getElementByOriginalId('lightning').id
+      };
+    });
+    expect(recipe.catalyst).toBe(lightning);
+  });
+
+  test('should not merge without the catalyst nearby', async ({ page }) => {
+    const metal = await page.evaluate(() => {
+      const game = (window as any).game;
+      const metal = (window as any).config.getElementByOriginalId('metal').id;
+      game.addElement(metal, 300, 300);
+      game.addElement('2', 700, 300);
+      return metal;
+    });
+    await dropOnTarget(page, '2');
+    expect(await canvasIds(page)).toEqual(['2', metal].sort());
+  });
+
+  test('should merge next to the catalyst and keep it', async ({ page }) => {
+    const { magnet, lightning } = await page.evaluate(() => {
+      const game = (window as any).game;
+      const config = (window as any).config;
+      const lightning = config.getElementByOriginalId('lightning').id;
+      game.addElement(config.getElementByOriginalId('metal').id, 300, 300);
+      game.addElement('2', 700, 300);
+      game.addElement(lightning, 380, 300);
+      return { magnet: config.getElementByOriginalId('magnet').id, lightning };
+    });
+    await dropOnTarget(page, '2');
+    expect(await canvasIds(page)).toEqual([lightning, magnet].sort());
+  });
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '@playwright/test';
+
+const openTab = async (context: any) => {
+  const page = await context.newPage();
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  await page.waitForTimeout(1000);
+  return page;
+};
+
+test.describe('Cross-Tab Sync', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+  });
+
+  test('should merge discoveries made in another tab', async ({ context }) => {
+    const first = await openTab(context);
+    const second = await openTab(context);
+
+    await first.evaluate(() => {
+      const game = (window as any).game;
+      game.elementManager.discoverElement('762');
+      game.refreshUI();
+    });
+
+    await expect(second.locator('[data-element-id="762"]')).toBeVisible();
+
+    // Discoveries from both tabs end up in the stored save
+    await second.evaluate(() => {
+      const game = (window as any).game;
+      game.elementManager.discoverElement('C99');
+      game.refreshUI();
+    });
+    await expect(first.locator('[data-element-id="C99"]')).toBeVisible();
+
+    const saved = await first.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(saved.data.discoveredElements).toEqual(expect.arrayContaining(['steam', 'mud']));
+  });
+
+  test('should keep the canvas owner layout when another tab saves', async ({ context }) => {
+    const first = await openTab(context);
+    const second = await openTab(context);
+
+    // The tab opened last claimed canvas saves
+    expect(await first.evaluate(() => (window as any).tabSync.isCanvasOwner())).toBe(false);
+    expect(await second.evaluate(() => (window as any).tabSync.isCanvasOwner())).toBe(true);
+
+    await second.evaluate(() => (window as any).game.addElement('0', 50, 50));
+    await first.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('1', 300, 300);
+      game.addElement('2', 350, 300);
+      game.refreshUI();
+    });
+
+    const saved = await first.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(saved.data.workspace.elements.map((el: any) => el.id)).toEqual(['water']);
+  });
+
+  test('should show the latest layout when a tab takes over the canvas', async ({ context }) => {
+    const first = await openTab(context);
+    const second = await openTab(context);
+
+    await second.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('3', 100, 100);
+      game.refreshUI();
+    });
+
+    await first.evaluate(() => (window as any).tabSync.claimCanvas());
+    const ids = await first.evaluate(() =>
+      (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id)
+    );
+    expect(ids).toEqual(['3']);
+  });
+
+  test('should propagate a reset to other tabs', async ({ context }) => {
+    const first = await openTab(context);
+    const second = await openTab(context);
+
+    await first.evaluate(() => {
+      const game = (window as any).game;
+      game.elementManager.discoverElement('762');
+      game.refreshUI();
+    });
+    await expect(second.locator('[data-element-id="762"]')).toBeVisible();
+
+    await second.evaluate(() => (window as any).game.reset());
+    await expect(first.locator('[data-element-id="762"]')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+const canvasIds = (page: any) =>
+  page.evaluate(() => (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id));
+
+test.describe('Element Decay', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the seeded save
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      const save = JSON.stringify({
+        version: 9,
+        savedAt: new Date().toISOString(),
+        data: {
+          discoveredElements: ['water', 'fire', 'earth', 'air', 'steam'],
+          elementCounts: {},
+          journal: [],
+          essence: 0,
+          lastSeen: null,
+          prestige: { count: 0, stones: 0, bonuses: {} },
+          upgrades: {},
+          hints: 3,
+          achievements: { unlocked: {}, stats: {} },
+          quests: { progress: {}, claimed: [] }
+        }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    // A manual clock so the lifetime only runs when the test advances it
+    await page.goto('/?clock=manual');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should compile decay rules into the element config', async ({ page }) => {
+    const decay = await page.evaluate(() => (window as any).config.getElementById('762').decay);
+    expect(decay).toEqual({ lifetime: 60000, byproduct: '0' });
+    expect(await page.evaluate(() => (window as any).config.getElementById('0').decay)).toBeNull();
+  });
+
+  test('should decay into the byproduct when the lifetime runs out', async ({ page }) => {
+    await page.evaluate(() => (window as any).game.addElement('762', 300, 300));
+
+    await page.evaluate(() => (window as any).scheduler.advance(30000));
+    expect(await canvasIds(page)).toEqual(['762']);
+    const alpha = await page.evaluate(() => (window as any).game.getAllCanvasElements()[0].alpha);
+    expect(alpha).toBeLessThan(1);
+
+    await page.evaluate(() => (window as any).scheduler.advance(30100));
+    expect(await canvasIds(page)).toEqual(['0']);
+  });
+
+  test('should drop only the undo steps that involve the decayed element', async ({ page }) => {
+    await page.evaluate(() => {
+      (window as any).game.addElement('1', 100, 100);
+      (window as any).game.addElement('762', 300, 300);
+    });
+
+    await page.evaluate(() => (window as any).scheduler.advance(60100));
+    expect(await canvasIds(page)).toEqual(['1', '0']);
+    expect(await page.evaluate(() => (window as any).game.canUndo())).toBe(true);
+
+    // Adding the steam is gone; adding the fire can still be undone
+    await page.evaluate(() => (window as any).game.undo());
+    expect(await canvasIds(page)).toEqual([]);
+    expect(await page.evaluate(() => (window as any).game.canUndo())).toBe(false);
+  });
+
+  test('should keep the remaining lifetime in the save', async ({ page }) => {
+    await page.evaluate(() => {
+      (window as any).game.addElement('762', 300, 300);
+      (window as any).scheduler.advance(10000);
+    });
+    const saved = await page.evaluate(() => JSON.parse((window as any).game.exportSaveData()));
+    const steam = saved.data.workspace.elements.find((el: any) => el.id === 'steam');
+    expect(steam.lifetime).toBeGreaterThan(49000);
+    expect(steam.lifetime).toBeLessThanOrEqual(50000);
+  });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Discovery Journal', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should record the inputs of each new discovery', async ({ page }) => {
+    const entries = await page.evaluate(() => {
+      const game = (window as any).game;
+      const manager = game.elementManager;
+      // water + fire = steam, twice: only the first is a discovery
+      manager.attemptMerge(manager.createElement('0'), manager.createElement('1'));
+      manager.attemptMerge(manager.createElement('1'), manager.createElement('0'));
+      game.refreshUI();
+      return game.getJournal();
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].elementId).toBe('762');
+    expect(entries[0].inputs).toEqual(['0', '1']);
+    expect(entries[0].sessionId).toBeTruthy();
+
+    // The journal is part of the save
+    const saved = await page.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(saved.data.journal[0]).toMatchObject({ elementId: 'steam', inputs: ['water', 'fire'] });
+  });
+
+  test('should list discoveries and export them as CSV', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      const manager = game.elementManager;
+      manager.attemptMerge(manager.createElement('0'), manager.createElement('2'));
+      game.refreshUI();
+    });
+
+    await page.locator('#journal-action').click();
+    await expect(page.locator('.journal-entry')).toHaveCount(1);
+
+    const [download] = await Promise.all([
+      page.waitForEvent('download'),
+      page.locator('#journal-export-csv').click()
+    ]);
+    const fs = await import('fs');
+    const csv = fs.readFileSync((await download.path())!, 'utf-8');
+    expect(csv.split('\n')[0]).toBe('discovered_at,element_id,element_name,inputs,session_id');
+    expect(csv).toContain(',mud,Mud,water+earth,');
+  });
+});
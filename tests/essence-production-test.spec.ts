@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Essence Production', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should produce nothing with an empty canvas', async ({ page }) => {
+    await page.waitForTimeout(1000);
+    expect(await page.evaluate(() => (window as any).game.getEssence())).toBe(0);
+    await expect(page.locator('#essence-rate')).toHaveText('+0.0/s');
+  });
+
+  test('should produce essence from elements on the canvas', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 0, 0);
+      game.addElement('1', 50, 0);
+    });
+
+    // Two basic elements at 0.1/s each
+    await expect(page.locator('#essence-rate')).toHaveText('+0.2/s');
+    await page.waitForTimeout(2000);
+
+    const essence = await page.evaluate(() => (window as any).game.getEssence());
+    expect(essence).toBeGreaterThan(0.2);
+    expect(essence).toBeLessThan(1);
+  });
+
+  test('should keep essence in the save', async ({ page }) => {
+    await page.evaluate(() => (window as any).game.addElement('0', 0, 0));
+    await page.waitForTimeout(1500);
+
+    const saved = await page.evaluate(() => {
+      const game = (window as any).game;
+      game.refreshUI();
+      return { essence: game.getEssence(), save: JSON.parse((window as any).storage.get('save')) };
+    });
+    expect(saved.save.data.essence).toBeCloseTo(saved.essence, 5);
+  });
+});
@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+
+// Loads a game with these original-ID inventory counts
+const loadWithCounts = async (page: any, elementCounts: Record<string, number>, lastSeen: string | null = null) => {
+  // Seed from a memory-storage session so the app cannot write back over the seeded save
+  await page.goto('/?storage=memory');
+  await page.evaluate(({ elementCounts, lastSeen }: any) => {
+    localStorage.clear();
+    const save = JSON.stringify({
+      version: 10,
+      savedAt: new Date().toISOString(),
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air', 'steam'],
+        elementCounts,
+        journal: [],
+        essence: 0,
+        lastSeen,
+        prestige: { count: 0, stones: 0, bonuses: {} },
+        upgrades: {},
+        hints: 3,
+        achievements: { unlocked: {}, stats: {} },
+        quests: { progress: {}, claimed: [] }
+      }
+    });
+    localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+  }, { elementCounts, lastSeen });
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+};
+
+test.describe('Element Inventory', () => {
+  test('should start a new game with full base stock', async ({ page }) => {
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await expect(page.locator('[data-element-id="0"] .element-count')).toHaveText('20');
+  });
+
+  test('should consume a count when spawning from the panel', async ({ page }) => {
+    await loadWithCounts(page, { water: 5, fire: 5, earth: 5, air: 5, steam: 1 });
+
+    await page.click('.element-card[data-element-id="762"]');
+    await expect(page.locator('.element-card[data-element-id="762"] .element-count')).toHaveText('0');
+    await expect(page.locator('.element-card[data-element-id="762"]')).toHaveClass(/out-of-stock/);
+
+    // Nothing left to spawn
+    const added = await page.evaluate(() => (window as any).game.addElementFromPanel('762', 300, 300));
+    expect(added).toBe(false);
+    expect(await page.evaluate(() => (window as any).game.getAllCanvasElements().length)).toBe(1);
+  });
+
+  test('should explain a drop that is out of stock', async ({ page }) => {
+    await loadWithCounts(page, { water: 5, fire: 5, earth: 5, air: 5, steam: 0 });
+
+    await page.evaluate(() => {
+      const dataTransfer = new DataTransfer();
+      dataTransfer.setData('text/plain', '762');
+      document.querySelector('canvas')!.dispatchEvent(
+        new DragEvent('drop', { dataTransfer, clientX: 300, clientY: 300, bubbles: true, cancelable: true })
+      );
+    });
+    await expect(page.locator('div:has-text("No Steam left")').last()).toBeVisible({ timeout: 2000 });
+    expect(await page.evaluate(() => (window as any).game.getAllCanvasElements().length)).toBe(0);
+  });
+
+  test('should add merge results to the inventory and revert them on undo', async ({ page }) => {
+    await loadWithCounts(page, { water: 5, fire: 5, earth: 5, air: 5, steam: 0 });
+
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElementFromPanel('0', 300, 300);
+      game.addElementFromPanel('1', 300, 300);
+    });
+    // Drag fire onto water
+    const merged = await page.evaluate(async () => {
+      const game = (window as any).game;
+      const [water, fire] = game.getAllCanvasElements();
+      fire.emit('dragstart', fire);
+      fire.x = water.x;
+      fire.y = water.y;
+      fire.emit('dragend', fire);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      return game.getElementCount('762');
+    });
+    expect(merged).toBe(1);
+
+    const counts = await page.evaluate(() => {
+      const game = (window as any).game;
+      game.undo();
+      return { steam: game.getElementCount('762'), water: game.getElementCount('0') };
+    });
+    expect(counts).toEqual({ steam: 0, water: 4 });
+  });
+
+  test('should refund cleared and duplicate elements and take them back on undo', async ({ page }) => {
+    await loadWithCounts(page, { water: 5, fire: 5, earth: 5, air: 5, steam: 0 });
+
+    const counts = await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElementFromPanel('0', 200, 200);
+      game.addElementFromPanel('0', 400, 400);
+      game.addElementFromPanel('1', 600, 600);
+      const placed = game.getElementCount('0');
+      game.removeDuplicateElements();
+      const deduplicated = game.getElementCount('0');
+      game.clearCanvas();
+      const cleared = [game.getElementCount('0'), game.getElementCount('1')];
+      game.undo();
+      const undone = [game.getElementCount('0'), game.getElementCount('1')];
+      return { placed, deduplicated, cleared, undone };
+    });
+    expect(counts).toEqual({ placed: 3, deduplicated: 4, cleared: [5, 5], undone: [4, 4] });
+  });
+
+  test('should regenerate base elements while away', async ({ page }) => {
+    // Ten minutes regenerates 60 units, capped at 20
+    await loadWithCounts(page, { water: 0, fire: 19, earth: 5, air: 5 }, new Date(Date.now() - 10 * 60 * 1000).toISOString());
+
+    const counts = await page.evaluate(() => {
+      const game = (window as any).game;
+      return ['0', '1', '2', '3'].map(id => game.getElementCount(id));
+    });
+    expect(counts).toEqual([20, 20, 20, 20]);
+  });
+});
@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+
+const canvasIds = (page: any) =>
+  page.evaluate(() => (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id).sort());
+
+test.describe('Multi-Ingredient Recipes', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the seeded save
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      const save = JSON.stringify({
+        version: 9,
+        savedAt: new Date().toISOString(),
+        data: {
+          discoveredElements: ['water', 'fire', 'earth', 'air'],
+          elementCounts: {},
+          journal: [],
+          essence: 0,
+          lastSeen: null,
+          prestige: { count: 0, stones: 0, bonuses: {} },
+          upgrades: {},
+          hints: 3,
+          achievements: { unlocked: {}, stats: {} },
+          quests: { progress: {}, claimed: [] }
+        }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    await page.goto('/?clock=manual');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should compile three-ingredient recipes', async ({ page }) => {
+    const recipe = await page.evaluate(() => (window as any).config.getRecipeByInputs('2', '0', '1'));
+    expect(recipe.outputs).toEqual(['8ED']);
+    expect(recipe.inputs.slice().sort()).toEqual(['0', '1', '2']);
+  });
+
+  test('should merge a cluster of three into the three-ingredient result', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 300, 300);
+      game.addElement('1', 340, 300);
+      game.addElement('2', 600, 300);
+      const earth = game.getAllCanvasElements().find((el: any) => el.definition.id === '2');
+      earth.emit('dragstart', earth);
+      earth.x = 320;
+      earth.y = 330;
+      earth.emit('dragend', earth);
+      (window as any).scheduler.advance(1000);
+    });
+    expect(await canvasIds(page)).toEqual(['8ED']);
+    expect(await page.evaluate(() => (window as any).game.getDiscoveredElementIds())).toContain('8ED');
+  });
+
+  test('should still merge pairs when no larger recipe matches', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 300, 300);
+      game.addElement('1', 600, 300);
+      const fire = game.getAllCanvasElements().find((el: any) => el.definition.id === '1');
+      fire.emit('dragstart', fire);
+      fire.x = 300;
+      fire.y = 300;
+      fire.emit('dragend', fire);
+      (window as any).scheduler.advance(1000);
+    });
+    expect(await canvasIds(page)).toEqual(['762']);
+  });
+});
@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+
+const canvasIds = (page: any) =>
+  page.evaluate(() => (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id).sort());
+
+test.describe('Multi-Output Recipes', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the seeded save
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      const save = JSON.stringify({
+        version: 9,
+        savedAt: new Date().toISOString(),
+        data: {
+          discoveredElements: ['water', 'fire', 'earth', 'air', 'sea'],
+          elementCounts: {},
+          journal: [],
+          essence: 0,
+          lastSeen: null,
+          prestige: { count: 0, stones: 0, bonuses: {} },
+          upgrades: {},
+          hints: 3,
+          achievements: { unlocked: {}, stats: {} },
+          quests: { progress: {}, claimed: [] }
+        }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    await page.goto('/?clock=manual');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should compile byproducts after the main output', async ({ page }) => {
+    const recipe = await page.evaluate(() => {
+      const config = (window as any).config;
+      return config.getRecipeByInputs(config.getElementByOriginalId('sea').id, '1');
+    });
+    expect(recipe.outputs).toEqual(['CEF', '762']);
+  });
+
+  test('should spawn and discover every output', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement((window as any).config.getElementByOriginalId('sea').id, 300, 300);
+      game.addElement('1', 600, 300);
+      const fire = game.getAllCanvasElements().find((el: any) => el.definition.id === '1');
+      fire.emit('dragstart', fire);
+      fire.x = 300;
+      fire.y = 300;
+      fire.emit('dragend', fire);
+      (window as any).scheduler.advance(1000);
+    });
+    expect(await canvasIds(page)).toEqual(['762', 'CEF']);
+
+    const discovered = await page.evaluate(() => (window as any).game.getDiscoveredElementIds());
+    expect(discovered).toEqual(expect.arrayContaining(['CEF', '762']));
+  });
+});
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+
+const HOUR = 60 * 60 * 1000;
+
+// Two basic elements on the canvas produce 0.2 essence per second
+const loadSaveLastSeen = async (page: any, awayMs: number) => {
+  // Seed from a memory-storage session so the app cannot write back over the seeded save
+  await page.goto('/?storage=memory');
+  await page.evaluate((lastSeen: string) => {
+    localStorage.clear();
+    const save = JSON.stringify({
+      version: 5,
+      savedAt: lastSeen,
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air'],
+        elementCounts: {},
+        journal: [],
+        workspace: {
+          elements: [{ id: 'water', x: 0, y: 0, z: 0 }, { id: 'fire', x: 100, y: 0, z: 1 }],
+          panOffset: { x: 0, y: 0 },
+          zoomLevel: 1
+        },
+        essence: 10,
+        lastSeen
+      }
+    });
+    localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+  }, new Date(Date.now() - awayMs).toISOString());
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+};
+
+test.describe('Offline Progress', () => {
+  test('should credit production for the time away', async ({ page }) => {
+    await loadSaveLastSeen(page, 2 * HOUR);
+
+    await expect(page.locator('.dialog-title')).toHaveText('While You Were Away');
+    await expect(page.locator('.dialog-message')).toContainText('2h');
+
+    const essence = await page.evaluate(() => (window as any).game.getEssence());
+    expect(essence).toBeGreaterThanOrEqual(10 + 0.2 * 7200);
+    expect(essence).toBeLessThan(10 + 0.2 * 7200 + 5);
+  });
+
+  test('should cap the credited duration', async ({ page }) => {
+    await loadSaveLastSeen(page, 30 * HOUR);
+
+    await expect(page.locator('.dialog-message')).toContainText('capped at 8h');
+    const essence = await page.evaluate(() => (window as any).game.getEssence());
+    expect(essence).toBeLessThan(10 + 0.2 * 8 * 3600 + 5);
+  });
+
+  test('should not show a summary after a quick reload', async ({ page }) => {
+    await loadSaveLastSeen(page, 5000);
+    await page.waitForTimeout(500);
+    await expect(page.locator('.dialog-overlay')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+// Discovers every element so a transmutation awards stones
+const discoverEverything = async (page: any) => {
+  await page.evaluate(() => {
+    const ids = (window as any).config.getGameConfig().elements.map((el: any) => el.id);
+    (window as any).game.loadDiscoveries(ids);
+  });
+};
+
+test.describe('Transmutation', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should not offer a transmutation with only the basic elements', async ({ page }) => {
+    expect(await page.evaluate(() => (window as any).game.getTransmuteAward())).toBe(0);
+
+    await page.click('#transmute-action');
+    await expect(page.locator('.dialog-title')).toHaveText('Transmutation');
+    await expect(page.locator('.prestige-award')).toContainText('first stone');
+    await expect(page.locator('[data-action="cancel"]')).toHaveCount(0);
+  });
+
+  test('should reset discoveries and award stones', async ({ page }) => {
+    await discoverEverything(page);
+    const award = await page.evaluate(() => (window as any).game.getTransmuteAward());
+    expect(award).toBeGreaterThan(0);
+
+    await page.click('#transmute-action');
+    await page.click('[data-action="confirm"]');
+    await expect(page.locator('.dialog-title')).toHaveText('Transmute?');
+    await page.click('[data-action="confirm"]');
+
+    await expect(page.locator('.element-card')).toHaveCount(4);
+    const state = await page.evaluate(() => {
+      const game = (window as any).game;
+      return { count: game.getPrestigeCount(), stones: game.getStones() };
+    });
+    expect(state).toEqual({ count: 1, stones: award });
+  });
+
+  test('should keep prestige through a reset and in the save', async ({ page }) => {
+    await discoverEverything(page);
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.transmute();
+      game.buyBonus('production');
+      game.reset();
+    });
+
+    const saved = await page.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(saved.data.prestige.count).toBe(1);
+    expect(saved.data.prestige.bonuses.production).toBe(1);
+
+    await page.reload();
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    const multiplier = await page.evaluate(() => (window as any).game.getBonusMultiplier('production'));
+    expect(multiplier).toBe(1.5);
+  });
+
+  test('should multiply essence production with the production bonus', async ({ page }) => {
+    await discoverEverything(page);
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.transmute();
+      game.buyBonus('production');
+      game.addElement('0', 0, 0);
+      game.addElement('1', 50, 0);
+    });
+
+    // Two basic elements at 0.1/s each, +50%
+    await expect(page.locator('#essence-rate')).toHaveText('+0.3/s');
+  });
+});
@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Player Profiles', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+  });
+
+  test('should keep separate progress per profile', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 0, 0);
+      game.refreshUI();
+    });
+
+    await page.locator('#profile-switcher').click();
+    await page.locator('#profile-create').click();
+    await page.locator('.dialog-input').fill('Second');
+    await page.locator('[data-action="confirm"]').click();
+
+    await expect(page.locator('.profile-row')).toHaveCount(2);
+    await page.locator('.profile-row:not(.active) [data-profile-action="switch"]').click();
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+
+    await expect(page.locator('#active-profile-label')).toHaveText('Second');
+    expect(await page.evaluate(() => (window as any).game.getAllCanvasElements().length)).toBe(0);
+  });
+
+  test('should reset only the active profile', async ({ page }) => {
+    await page.evaluate(async () => {
+      const game = (window as any).game;
+      game.addElement('0', 0, 0);
+      game.refreshUI();
+      await (window as any).storage.flush();
+    });
+
+    // Duplicate the default profile, then reset the original
+    await page.locator('#profile-switcher').click();
+    await page.locator('.profile-row.active [data-profile-action="duplicate"]').click();
+    await expect(page.locator('.dialog-input')).toHaveValue('Player 1 (copy)');
+    await page.locator('[data-action="confirm"]').click();
+    await page.locator('[data-action="confirm"]').click();
+
+    await page.evaluate(async () => {
+      (window as any).game.reset();
+      await (window as any).storage.flush();
+    });
+
+    const canvasCounts = await page.evaluate(() => {
+      const count = (key: string) => JSON.parse(JSON.parse(localStorage.getItem(key)!)).data.workspace.elements.length;
+      const copyKey = Object.keys(localStorage).find(key => key.endsWith(':save') && !key.includes(':default:'))!;
+      return { active: count('idle-alchemy:profile:default:save'), copy: count(copyKey) };
+    });
+    expect(canvasCounts).toEqual({ active: 0, copy: 1 });
+  });
+
+  test('should not offer to delete the active profile', async ({ page }) => {
+    await page.locator('#profile-switcher').click();
+    await expect(page.locator('.profile-row.active [data-profile-action="delete"]')).toHaveCount(0);
+  });
+});
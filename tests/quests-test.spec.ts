@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+const getQuests = (page: any) => page.evaluate(() => (window as any).game.getQuests());
+
+test.describe('Quests', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should generate the same quests for today after a reload', async ({ page }) => {
+    const quests = await getQuests(page);
+    const today = new Date().toISOString().slice(0, 10);
+    expect(quests.filter((q: any) => q.period === 'daily').length).toBe(3);
+    expect(quests.filter((q: any) => q.period === 'weekly').length).toBe(2);
+    expect(quests[0].id.startsWith(`daily:${today}:`)).toBe(true);
+
+    await page.reload();
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    expect(await getQuests(page)).toEqual(quests);
+  });
+
+  test('should count merges and show them in the quests tab', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 100, 100);
+      game.addElement('1', 400, 100);
+    });
+    await page.evaluate(async () => {
+      const [water, fire] = (window as any).game.getAllCanvasElements();
+      fire.emit('dragstart', fire);
+      fire.x = water.x;
+      fire.y = water.y;
+      fire.emit('dragend', fire);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    });
+
+    const merges = (await getQuests(page)).find((q: any) => q.goal.type === 'merges' && q.period === 'daily');
+    expect(await page.evaluate((q: any) => (window as any).game.getQuestProgress(q), merges)).toBe(1);
+
+    await page.click('#tab-quests');
+    await expect(page.locator('#element-grid')).toBeHidden();
+    await expect(page.locator(`[data-quest-id="${merges.id}"]`)).toContainText(`1/${merges.target}`);
+  });
+
+  test('should pay out a completed quest once', async ({ page }) => {
+    const merges = (await getQuests(page)).find((q: any) => q.goal.type === 'merges' && q.period === 'daily');
+
+    // Reload with the quest already complete
+    const save = await page.evaluate((quest: any) => {
+      const envelope = JSON.parse((window as any).game.exportSaveData());
+      envelope.data.quests = { progress: { [quest.id]: quest.target }, claimed: [] };
+      return JSON.stringify(envelope);
+    }, merges);
+    await page.evaluate((save: string) => (window as any).game.importSaveData(save), save);
+
+    const before = await page.evaluate(() => {
+      const game = (window as any).game;
+      return { essence: game.getEssence(), hints: game.getHintCount() };
+    });
+    await page.click('#tab-quests');
+    await page.click(`[data-quest-id="${merges.id}"] .quest-claim-btn`);
+
+    const after = await page.evaluate(() => {
+      const game = (window as any).game;
+      return { essence: game.getEssence(), hints: game.getHintCount() };
+    });
+    if (merges.reward.type === 'essence') {
+      expect(after.essence).toBeGreaterThanOrEqual(before.essence + merges.reward.amount);
+    } else {
+      expect(after.hints).toBe(before.hints + merges.reward.amount);
+    }
+    await expect(page.locator(`[data-quest-id="${merges.id}"] .quest-claim-btn`)).toBeDisabled();
+    expect(await page.evaluate((id: string) => (window as any).game.claimQuest(id), merges.id)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Recipe Index', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should find recipes by inputs in any order', async ({ page }) => {
+    const outputs = await page.evaluate(() => {
+      const config = (window as any).config;
+      return [
+        config.getRecipeByInputs('0', '1').outputs,
+        config.getRecipeByInputs('1', '0').outputs,
+        config.getRecipeByInputs('1', '2', '0').outputs
+      ];
+    });
+    expect(outputs).toEqual([['762'], ['762'], ['8ED']]);
+    expect(await page.evaluate(() => (window as any).config.getRecipeByInputs('0', '0', '0'))).toBeUndefined();
+  });
+
+  test('should list the recipes an element is used in', async ({ page }) => {
+    const { using, expected } = await page.evaluate(() => {
+      const config = (window as any).config;
+      const key = (recipe: any) => [...recipe.inputs].sort().join('+');
+      return {
+        using: config.getRecipesUsing('1').map(key).sort(),
+        expected: config.getGameConfig().recipes.filter((recipe: any) => recipe.inputs.includes('1')).map(key).sort()
+      };
+    });
+    expect(using.length).toBeGreaterThan(0);
+    expect(using).toEqual(expected);
+  });
+
+  test('should find elements by their original ID', async ({ page }) => {
+    const ids = await page.evaluate(() => {
+      const config = (window as any).config;
+      return [config.getElementByOriginalId('steam')?.id, config.getElementByOriginalId('nothing')];
+    });
+    expect(ids).toEqual(['762', undefined]);
+  });
+
+  test('should rebuild the index when the language changes', async ({ page }) => {
+    const counts = await page.evaluate(() => {
+      const config = (window as any).config;
+      const before = config.getRecipesUsing('0').length;
+      config.setLanguage('es');
+      const after = config.getRecipesUsing('0').length;
+      config.setLanguage('en');
+      return { before, after };
+    });
+    expect(counts.after).toBeLessThan(counts.before);
+  });
+});
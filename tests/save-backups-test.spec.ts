@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Save Backups', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+  });
+
+  test('should make a reset restorable', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.elementManager.discoverElement('762');
+      game.refreshUI();
+    });
+
+    await page.locator('#reset-action').click();
+    await page.locator('[data-action="confirm"]').click();
+    await expect(page.locator('[data-element-id="762"]')).toHaveCount(0);
+
+    await page.locator('#backups-action').click();
+    await page.locator('.backup-row').first().locator('.backup-restore-btn').click();
+    await page.locator('[data-action="confirm"]').click();
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+  });
+
+  test('should offer backups when the save cannot be loaded', async ({ page }) => {
+    // A good save gets backed up on load...
+    await page.evaluate(() => {
+      const save = JSON.stringify({
+        version: 2,
+        savedAt: new Date().toISOString(),
+        data: { discoveredElements: ['water', 'fire', 'earth', 'air', 'steam'], elementCounts: {} }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    await page.evaluate(() => (window as any).storage.flush());
+
+    // ...then the save gets corrupted
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify('{"version": 2, "data": {'));
+    });
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    const row = page.locator('.backup-row').first();
+    await expect(row.locator('.backup-meta')).toContainText('5 elements');
+    await row.locator('.backup-restore-btn').click();
+    await page.locator('[data-action="confirm"]').click();
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+    expect(await page.evaluate(() => (window as any).game.getLoadError())).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+
+test.describe('Save Export / Import', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    const helpCloseBtn = page.locator('#close-tooltip');
+    if (await helpCloseBtn.isVisible()) {
+      await helpCloseBtn.click();
+    }
+  });
+
+  test('should round-trip progress through an exported file', async ({ page }) => {
+    // Place elements so the export carries a canvas layout
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 0, 0);
+      game.addElement('1', 0, 0);
+    });
+
+    const downloadPromise = page.waitForEvent('download');
+    await page.locator('#export-save').click();
+    const download = await downloadPromise;
+    const exportPath = await download.path();
+    const exported = JSON.parse(fs.readFileSync(exportPath!, 'utf-8'));
+
+    expect(exported.format).toBe('idle-alchemy-export');
+    expect(exported.checksum).toMatch(/^[0-9a-f]{8}$/);
+    expect(exported.payload.settings.sort).toBe('discovery-asc');
+
+    // Start fresh, then import the file back
+    await page.evaluate(() => (window as any).game.reset());
+    await page.locator('#import-save-file').setInputFiles(exportPath!);
+    await page.locator('[data-action="confirm"]').click();
+    await page.waitForTimeout(500);
+
+    const canvasCount = await page.evaluate(() => (window as any).game.getAllCanvasElements().length);
+    expect(canvasCount).toBe(2);
+  });
+
+  test('should reject a file whose checksum does not match', async ({ page }) => {
+    const downloadPromise = page.waitForEvent('download');
+    await page.locator('#export-save').click();
+    const exportPath = await (await downloadPromise).path();
+
+    const tampered = JSON.parse(fs.readFileSync(exportPath!, 'utf-8'));
+    tampered.payload.save.data.discoveredElements.push('steam');
+
+    await page.locator('#import-save-file').setInputFiles({
+      name: 'tampered.json',
+      mimeType: 'application/json',
+      buffer: Buffer.from(JSON.stringify(tampered))
+    });
+
+    // No confirmation is offered and progress is unchanged
+    await expect(page.locator('.dialog-overlay')).toHaveCount(0);
+    await expect(page.locator('.element-card')).toHaveCount(4);
+  });
+});
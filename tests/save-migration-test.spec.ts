@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+
+// Stores the save the way the storage service does: a JSON-encoded string under the default profile's key
+const loadWithSave = async (page: any, save: unknown) => {
+  // Seed from a memory-storage session so the app cannot write back over the seeded save
+  await page.goto('/?storage=memory');
+  await page.evaluate((data: string) => {
+    localStorage.clear();
+    localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(data));
+  }, JSON.stringify(save));
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  await page.waitForTimeout(1000);
+};
+
+test.describe('Versioned Save Format', () => {
+  test('should migrate a legacy unversioned save', async ({ page }) => {
+    // Pre-versioning saves stored hex IDs directly (762 = steam, C99 = mud)
+    await loadWithSave(page, {
+      discoveredElements: ['0', '1', '2', '3', '762', 'C99'],
+      elementCounts: { '762': 1 }
+    });
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+    await expect(page.locator('[data-element-id="C99"]')).toBeVisible();
+
+    // The next save is written in the current versioned format with stable IDs
+    const saved = await page.evaluate(() => {
+      (window as any).game.refreshUI();
+      return JSON.parse((window as any).storage.get('save'));
+    });
+    expect(saved.version).toBe(10);
+    expect(saved.data.discoveredElements).toContain('steam');
+    expect(saved.data.discoveredElements).toContain('mud');
+    expect(saved.data.journal).toEqual([]);
+    expect(saved.data.essence).toBe(0);
+    expect(saved.data.prestige).toEqual({ count: 0, stones: 0, bonuses: { production: 0, offline: 0 } });
+    expect(saved.data.upgrades).toEqual({});
+    expect(saved.data.hints).toBe(3);
+    expect(saved.data.achievements.stats).toEqual({ merges: 0, clears: 0, arranges: 0 });
+    expect(saved.data.quests).toEqual({ progress: {}, claimed: [] });
+  });
+
+  test('should import a save left under the pre-storage-service key', async ({ page }) => {
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      localStorage.setItem('idle-alchemy-save', JSON.stringify({ discoveredElements: ['0', '1', '2', '3', '762'], elementCounts: {} }));
+    });
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+    const legacyKey = await page.evaluate(() => localStorage.getItem('idle-alchemy-save'));
+    expect(legacyKey).toBeNull();
+  });
+
+  test('should load a current save by original element IDs', async ({ page }) => {
+    await loadWithSave(page, {
+      version: 2,
+      savedAt: new Date().toISOString(),
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air', 'steam'],
+        elementCounts: {}
+      }
+    });
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+  });
+
+  test('should give discovered elements a starting stock in a save from before the inventory', async ({ page }) => {
+    await loadWithSave(page, {
+      version: 9,
+      savedAt: new Date().toISOString(),
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air', 'steam', 'mud'],
+        elementCounts: { steam: 1 },
+        journal: [],
+        essence: 0,
+        lastSeen: null,
+        prestige: { count: 0, stones: 0, bonuses: {} },
+        upgrades: {},
+        hints: 3,
+        achievements: { unlocked: {}, stats: {} },
+        quests: { progress: {}, claimed: [] }
+      }
+    });
+
+    const counts = await page.evaluate(() => {
+      const game = (window as any).game;
+      return ['0', '762', 'C99'].map(id => game.getElementCount(id));
+    });
+    expect(counts).toEqual([20, 5, 5]);
+  });
+
+  test('should reject a save from a newer version without overwriting it', async ({ page }) => {
+    const futureSave = {
+      version: 999,
+      savedAt: new Date().toISOString(),
+      data: { discoveredElements: ['water', 'steam'], elementCounts: {} }
+    };
+    await loadWithSave(page, futureSave);
+
+    await expect(page.locator('.dialog-message')).toContainText('999');
+    await expect(page.locator('[data-element-id="762"]')).toHaveCount(0);
+
+    await page.locator('[data-action="cancel"]').click();
+    await page.evaluate(() => (window as any).game.refreshUI());
+
+    const stored = await page.evaluate(() => JSON.parse((window as any).storage.get('save')));
+    expect(stored).toEqual(futureSave);
+  });
+});
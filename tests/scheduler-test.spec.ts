@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+
+const setVisibility = (page: any, state: 'visible' | 'hidden') =>
+  page.evaluate((state: string) => {
+    Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+    document.dispatchEvent(new Event('visibilitychange'));
+  }, state);
+
+test.describe('Scheduler', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the seeded save
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => {
+      localStorage.clear();
+      const save = JSON.stringify({
+        version: 9,
+        savedAt: new Date().toISOString(),
+        data: {
+          discoveredElements: ['water', 'fire', 'earth', 'air'],
+          elementCounts: {},
+          journal: [],
+          workspace: { elements: [{ id: 'water', x: 200, y: 200, z: 0 }], panOffset: { x: 0, y: 0 }, zoomLevel: 1 },
+          essence: 0,
+          lastSeen: null,
+          prestige: { count: 0, stones: 0, bonuses: {} },
+          upgrades: {},
+          hints: 3,
+          achievements: { unlocked: {}, stats: {} },
+          quests: { progress: {}, claimed: [] }
+        }
+      });
+      localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+    });
+    await page.goto('/?clock=manual');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+  });
+
+  test('should only produce when the clock is advanced', async ({ page }) => {
+    await page.waitForTimeout(1000);
+    expect(await page.evaluate(() => (window as any).game.getEssence())).toBe(0);
+
+    const { essence, rate } = await page.evaluate(() => {
+      const game = (window as any).game;
+      (window as any).scheduler.advance(10000);
+      return { essence: game.getEssence(), rate: game.getEssenceRate() };
+    });
+    expect(rate).toBeGreaterThan(0);
+    expect(essence).toBeCloseTo(rate * 10, 5);
+  });
+
+  test('should finish merge animations on advance', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('1', 500, 200);
+      const [water, fire] = game.getAllCanvasElements();
+      fire.emit('dragstart', fire);
+      fire.x = water.x;
+      fire.y = water.y;
+      fire.emit('dragend', fire);
+    });
+    await page.waitForTimeout(1000);
+    expect(await page.evaluate(() => (window as any).game.getAllCanvasElements().length)).toBe(2);
+
+    await page.evaluate(() => (window as any).scheduler.advance(1000));
+    expect(await page.evaluate(() => (window as any).game.getAllCanvasElements().length)).toBe(1);
+  });
+
+  test('should keep running other callbacks when one throws', async ({ page }) => {
+    const frames = await page.evaluate(() => {
+      const scheduler = (window as any).scheduler;
+      let frames = 0;
+      scheduler.onFrame(() => { throw new Error('broken callback'); });
+      scheduler.onFrame(() => { frames++; });
+      scheduler.advance(100);
+      return frames;
+    });
+    expect(frames).toBeGreaterThan(0);
+  });
+
+  test('should finish a merge whose element is destroyed mid-animation', async ({ page }) => {
+    const settled = await page.evaluate(async () => {
+      const game = (window as any).game;
+      const [water] = game.getAllCanvasElements();
+      const merge = water.playMergeAnimation(300, 300);
+      water.destroy();
+      (window as any).scheduler.advance(100);
+      return Promise.race([merge.then(() => true), new Promise(resolve => setTimeout(() => resolve(false), 500))]);
+    });
+    expect(settled).toBe(true);
+  });
+
+  test('should pause while hidden and credit the time on return', async ({ page }) => {
+    await setVisibility(page, 'hidden');
+    const hidden = await page.evaluate(() => {
+      (window as any).scheduler.advance(120000);
+      return { paused: (window as any).scheduler.isPaused(), essence: (window as any).game.getEssence() };
+    });
+    expect(hidden).toEqual({ paused: true, essence: 0 });
+
+    await setVisibility(page, 'visible');
+    const essence = await page.evaluate(() => (window as any).game.getEssence());
+    expect(essence).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Share Codes', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+  });
+
+  test('should copy a short share link and load it after confirmation', async ({ page, context }) => {
+    await context.grantPermissions(['clipboard-read', 'clipboard-write']);
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.elementManager.discoverElement('762');
+      game.elementManager.discoverElement('C99');
+      game.refreshUI();
+    });
+
+    await page.locator('#copy-share-code').click();
+    const link = await page.evaluate(() => navigator.clipboard.readText());
+    const code = new URL(link).hash.replace('#save=', '');
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(code.length).toBeLessThan(20);
+
+    // Open the link on fresh progress
+    await page.evaluate(async () => {
+      (window as any).game.reset();
+      await (window as any).storage.flush();
+    });
+    await page.goto(`/#save=${code}`);
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await expect(page.locator('.dialog-message')).toContainText('6');
+    await page.locator('[data-action="confirm"]').click();
+
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+    await expect(page.locator('[data-element-id="C99"]')).toBeVisible();
+    expect(await page.evaluate(() => window.location.hash)).toBe('');
+  });
+
+  test('should leave progress alone when the prompt is cancelled', async ({ page }) => {
+    await page.goto('/#save=AQABAQE');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await page.locator('[data-action="cancel"]').click();
+    expect(await page.evaluate(() => (window as any).game.getProgress().discovered)).toBe(4);
+  });
+});
@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Storage Service', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+  });
+
+  test('should write namespaced keys in batches', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await page.evaluate(() => (window as any).game.addElement('0', 0, 0));
+    await page.evaluate(() => (window as any).storage.flush());
+
+    const keys = await page.evaluate(() => Object.keys(localStorage));
+    expect(keys).toContain('idle-alchemy:profile:default:save');
+    expect(keys.some(key => key.startsWith('idle-alchemy-'))).toBe(false);
+  });
+
+  test('should keep the memory backend out of localStorage', async ({ page }) => {
+    await page.goto('/?storage=memory');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    const backend = await page.evaluate(async () => {
+      (window as any).game.addElement('0', 0, 0);
+      await (window as any).storage.flush();
+      return (window as any).storage.getBackendName();
+    });
+
+    expect(backend).toBe('memory');
+    expect(await page.evaluate(() => localStorage.length)).toBe(0);
+  });
+
+  test('should warn when the storage quota is exceeded', async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+
+    await page.evaluate(async () => {
+      Storage.prototype.setItem = () => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      };
+      (window as any).game.addElement('0', 0, 0);
+      await (window as any).storage.flush();
+    });
+
+    await expect(page.locator('.dialog-title')).toHaveText('Storage Full');
+    expect(await page.evaluate(() => (window as any).storage.isQuotaExceeded())).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+
+const canvasIds = (page: any) => page.evaluate(() =>
+  (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id)
+);
+
+test.describe('Undo / Redo', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+  });
+
+  test('should undo and redo clearing the canvas', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 100, 100);
+      game.addElement('1', 200, 100);
+      game.clearCanvas();
+    });
+    expect(await canvasIds(page)).toEqual([]);
+
+    await page.locator('#undo-action').click();
+    expect(await canvasIds(page)).toEqual(['0', '1']);
+
+    await page.locator('#redo-action').click();
+    expect(await canvasIds(page)).toEqual([]);
+    await expect(page.locator('#redo-action')).toBeDisabled();
+  });
+
+  test('should bind Ctrl+Z and Ctrl+Shift+Z', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('2', 100, 100);
+      game.addElement('2', 140, 100);
+      game.removeDuplicateElements();
+    });
+    expect(await canvasIds(page)).toEqual(['2']);
+
+    await page.keyboard.press('Control+z');
+    expect(await canvasIds(page)).toEqual(['2', '2']);
+
+    await page.keyboard.press('Control+Shift+z');
+    expect(await canvasIds(page)).toEqual(['2']);
+  });
+
+  test('should keep the discovery when a merge is undone', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 100, 100);
+      game.addElement('1', 400, 100);
+    });
+
+    // Drag fire onto water
+    const merged = await page.evaluate(async () => {
+      const game = (window as any).game;
+      const [water, fire] = game.getAllCanvasElements();
+      fire.emit('dragstart', fire);
+      fire.x = water.x;
+      fire.y = water.y;
+      fire.emit('dragend', fire);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      return game.getAllCanvasElements().map((el: any) => el.definition.id);
+    });
+    expect(merged).toEqual(['762']);
+
+    await page.keyboard.press('Control+z');
+    expect(await canvasIds(page)).toEqual(['0', '1']);
+    await expect(page.locator('[data-element-id="762"]')).toBeVisible();
+  });
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+
+// Loads a fresh game holding this much essence
+const loadWithEssence = async (page: any, essence: number) => {
+  // Seed from a memory-storage session so the app cannot write back over the seeded save
+  await page.goto('/?storage=memory');
+  await page.evaluate((essence: number) => {
+    localStorage.clear();
+    const save = JSON.stringify({
+      version: 7,
+      savedAt: new Date().toISOString(),
+      data: {
+        discoveredElements: ['water', 'fire', 'earth', 'air'],
+        elementCounts: {},
+        journal: [],
+        essence,
+        lastSeen: null,
+        prestige: { count: 0, stones: 0, bonuses: {} },
+        upgrades: {},
+        hints: 0
+      }
+    });
+    localStorage.setItem('idle-alchemy:profile:default:save', JSON.stringify(save));
+  }, essence);
+  await page.goto('/');
+  await page.waitForSelector('#discovery-panel', { timeout: 10000 });
+};
+
+test.describe('Upgrade Shop', () => {
+  test('should list the upgrades from the compiled config', async ({ page }) => {
+    await loadWithEssence(page, 0);
+    await page.click('#shop-action');
+
+    await expect(page.locator('.dialog-title')).toHaveText('Shop');
+    await expect(page.locator('[data-upgrade-id="reach"]')).toBeVisible();
+    await expect(page.locator('[data-upgrade-id="reach"] .shop-buy-btn')).toBeDisabled();
+  });
+
+  test('should spend essence and raise the merge distance', async ({ page }) => {
+    await loadWithEssence(page, 100);
+    await page.click('#shop-action');
+    await page.click('[data-upgrade-id="reach"] .shop-buy-btn');
+
+    const state = await page.evaluate(() => {
+      const game = (window as any).game;
+      return { essence: game.getEssence(), level: game.getUpgradeLevel('reach'), distance: game.getMergeDistance() };
+    });
+    expect(state).toEqual({ essence: 75, level: 1, distance: 60 });
+
+    // The shop reopens with the next level's cost
+    await expect(page.locator('[data-upgrade-id="reach"] .shop-buy-btn')).toHaveText('45 essence');
+  });
+
+  test('should refill hints', async ({ page }) => {
+    await loadWithEssence(page, 100);
+    await page.click('#hint-action');
+    await expect(page.getByText('No hints left')).toBeVisible();
+
+    await page.click('#shop-action');
+    await page.click('[data-upgrade-id="insight"] .shop-buy-btn');
+    expect(await page.evaluate(() => (window as any).game.getHintCount())).toBe(3);
+  });
+
+  test('should keep upgrades in the save and clear them on reset', async ({ page }) => {
+    await loadWithEssence(page, 100);
+    await page.evaluate(() => (window as any).game.buyUpgrade('efficiency'));
+
+    const saved = await page.evaluate(() => {
+      (window as any).game.refreshUI();
+      return JSON.parse((window as any).storage.get('save'));
+    });
+    expect(saved.data.upgrades).toEqual({ efficiency: 1 });
+
+    await page.evaluate(() => (window as any).game.reset());
+    expect(await page.evaluate(() => (window as any).game.getUpgradeLevel('efficiency'))).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Workspace Persistence', () => {
+  test.beforeEach(async ({ page }) => {
+    // Seed from a memory-storage session so the app cannot write back over the cleared storage
+    await page.goto('/?storage=memory');
+    await page.evaluate(() => localStorage.clear());
+    await page.goto('/');
+    await page.waitForSelector('#game-container canvas', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+  });
+
+  test('should restore canvas elements, positions and camera after reload', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('0', 120, 80);
+      game.addElement('1', -40, 200);
+      game.setZoom(1.5);
+    });
+    await page.evaluate(() => (window as any).storage.flush());
+
+    const before = await page.evaluate(() => {
+      const game = (window as any).game;
+      return {
+        elements: game.getAllCanvasElements().map((el: any) => ({ id: el.definition.id, x: el.x, y: el.y })),
+        zoom: game.getZoom()
+      };
+    });
+
+    await page.reload();
+    await page.waitForSelector('#game-container canvas', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+
+    const after = await page.evaluate(() => {
+      const game = (window as any).game;
+      return {
+        elements: game.getAllCanvasElements().map((el: any) => ({ id: el.definition.id, x: el.x, y: el.y })),
+        zoom: game.getZoom()
+      };
+    });
+
+    expect(after.elements).toEqual(before.elements);
+    expect(after.zoom).toBeCloseTo(before.zoom);
+  });
+
+  test('should keep the stacking order of restored elements', async ({ page }) => {
+    await page.evaluate(() => {
+      const game = (window as any).game;
+      game.addElement('2', 0, 0);
+      game.addElement('3', 10, 10);
+      game.refreshUI();
+    });
+    await page.evaluate(() => (window as any).storage.flush());
+
+    await page.reload();
+    await page.waitForSelector('#game-container canvas', { timeout: 10000 });
+    await page.waitForTimeout(1000);
+
+    const ids = await page.evaluate(() =>
+      (window as any).game.getAllCanvasElements().map((el: any) => el.definition.id)
+    );
+    expect(ids).toEqual(['2', '3']);
+  });
+});